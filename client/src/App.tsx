@@ -1,12 +1,18 @@
 import { Route, Routes } from 'react-router-dom';
+import GamePage from './pages/GamePage';
 import LandingPage from './pages/LandingPage';
+import LeaderboardsPage from './pages/LeaderboardsPage';
 import LobbyPage from './pages/LobbyPage';
+import ProfilePage from './pages/ProfilePage';
 
 export default function App() {
   return (
     <Routes>
       <Route path="/" element={<LandingPage />} />
       <Route path="/lobby/:lobbyId" element={<LobbyPage />} />
+      <Route path="/games/:gameId" element={<GamePage />} />
+      <Route path="/profile/:profileId" element={<ProfilePage />} />
+      <Route path="/leaderboards" element={<LeaderboardsPage />} />
     </Routes>
   );
 }
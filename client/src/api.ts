@@ -1,4 +1,20 @@
-import type { LobbySettings } from '@shared/types';
+import {
+  GameErrorCode,
+  type ArchivedGame,
+  type ArchivedGameSummary,
+  type CreateProfileRequest,
+  type CreateProfileResponse,
+  type GameError,
+  type LeaderboardsResponse,
+  type LobbySettings,
+  type MemePackSummary,
+  type PlayerProfile,
+  type PromptPackSummary,
+  type PublicLobby,
+  type QuickMatchRequest,
+  type QuickMatchResponse,
+  type ThemeInfo
+} from '@shared/types';
 
 declare global {
   interface Window {
@@ -43,8 +59,6 @@ function buildHostedApiCandidates(hostname: string): string[] {
   }
 
   return Array.from(candidates);
-function normalizeBaseUrl(url: string): string {
-  return url.replace(/\/$/, '');
 }
 
 function deriveHostedApiBase(): string | undefined {
@@ -61,14 +75,6 @@ function deriveHostedApiBase(): string | undefined {
 
   for (const candidateHost of buildHostedApiCandidates(hostname)) {
     return `${protocol}//${candidateHost}/api`;
-  const { protocol, host } = window.location;
-
-  if (host.includes('-client')) {
-    return `${protocol}//${host.replace('-client', '-server')}/api`;
-  }
-
-  if (host.includes('client.')) {
-    return `${protocol}//${host.replace('client.', 'server.')}/api`;
   }
 
   return undefined;
@@ -78,18 +84,42 @@ const API_BASE =
   normalizeBaseUrl(import.meta.env.VITE_API_BASE as string | undefined) ??
   deriveHostedApiBase() ??
   '/api';
-const API_BASE = normalizeBaseUrl(
-  (import.meta.env.VITE_API_BASE as string | undefined) ?? deriveHostedApiBase() ?? '/api'
-);
+
+export class ApiError extends Error {
+  readonly code: GameErrorCode;
+  readonly details?: Record<string, unknown>;
+
+  constructor(error: GameError) {
+    super(error.message);
+    this.name = 'ApiError';
+    this.code = error.code;
+    this.details = error.details;
+  }
+}
+
+async function readError(res: Response, fallback: string): Promise<ApiError> {
+  const body = (await res.json().catch(() => null)) as Partial<GameError> | null;
+  return new ApiError({
+    code: body?.code ?? GameErrorCode.Internal,
+    message: body?.message ?? fallback,
+    details: body?.details
+  });
+}
 
 export interface CreateLobbyRequest extends LobbySettings {
   name?: string;
   avatar?: string;
+  profileToken?: string;
+  password?: string;
+  inviteOnly?: boolean;
 }
 
 export interface CreateLobbyResponse {
   lobbyId: string;
+  code: string;
   playerId: string;
+  /** Claims the host seat when joining over the socket; keep it private. */
+  sessionToken: string;
   settings: LobbySettings;
   host: {
     id: string;
@@ -102,7 +132,8 @@ export interface LobbySummary {
   lobbyId: string;
   settings: LobbySettings;
   phase: string;
-  players: Array<{
+  /** Left out for lobbies with a password or invite-only access. */
+  players?: Array<{
     id: string;
     name: string;
     avatar: string;
@@ -110,6 +141,10 @@ export interface LobbySummary {
     connected: boolean;
   }>;
   hostId: string;
+  locked: boolean;
+  code: string;
+  hasPassword: boolean;
+  inviteOnly: boolean;
 }
 
 export async function createLobby(payload: CreateLobbyRequest): Promise<CreateLobbyResponse> {
@@ -121,7 +156,29 @@ export async function createLobby(payload: CreateLobbyRequest): Promise<CreateLo
     body: JSON.stringify(payload)
   });
   if (!res.ok) {
-    throw new Error('Failed to create lobby');
+    throw await readError(res, 'Failed to create lobby');
+  }
+  return res.json();
+}
+
+export async function listLobbies(): Promise<PublicLobby[]> {
+  const res = await fetch(`${API_BASE}/lobbies`);
+  if (!res.ok) {
+    throw await readError(res, 'Failed to load lobbies');
+  }
+  return res.json();
+}
+
+export async function quickMatch(payload: QuickMatchRequest): Promise<QuickMatchResponse> {
+  const res = await fetch(`${API_BASE}/lobbies/quick-match`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(payload)
+  });
+  if (!res.ok) {
+    throw await readError(res, 'No lobby available');
   }
   return res.json();
 }
@@ -129,7 +186,104 @@ export async function createLobby(payload: CreateLobbyRequest): Promise<CreateLo
 export async function getLobby(lobbyId: string): Promise<LobbySummary> {
   const res = await fetch(`${API_BASE}/lobbies/${lobbyId}`);
   if (!res.ok) {
-    throw new Error('Lobby not found');
+    throw await readError(res, 'Lobby not found');
+  }
+  return res.json();
+}
+
+export async function listLobbyGames(lobbyId: string): Promise<ArchivedGameSummary[]> {
+  const res = await fetch(`${API_BASE}/lobbies/${lobbyId}/games`);
+  if (!res.ok) {
+    throw await readError(res, 'Failed to load past games');
+  }
+  return res.json();
+}
+
+export async function getGame(gameId: string): Promise<ArchivedGame> {
+  const res = await fetch(`${API_BASE}/games/${gameId}`);
+  if (!res.ok) {
+    throw await readError(res, 'Game not found');
+  }
+  return res.json();
+}
+
+export async function createProfile(payload: CreateProfileRequest): Promise<CreateProfileResponse> {
+  const res = await fetch(`${API_BASE}/profiles`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(payload)
+  });
+  if (!res.ok) {
+    throw await readError(res, 'Failed to create profile');
+  }
+  return res.json();
+}
+
+export async function getProfile(profileId: string): Promise<PlayerProfile> {
+  const res = await fetch(`${API_BASE}/profiles/${profileId}`);
+  if (!res.ok) {
+    throw await readError(res, 'Profile not found');
+  }
+  return res.json();
+}
+
+export async function resolveJoinCode(code: string): Promise<string> {
+  const res = await fetch(`${API_BASE}/join-codes/${encodeURIComponent(code)}`);
+  if (!res.ok) {
+    throw await readError(res, 'Lobby not found');
+  }
+  const body = (await res.json()) as { lobbyId: string };
+  return body.lobbyId;
+}
+
+export async function getThemes(): Promise<ThemeInfo[]> {
+  const res = await fetch(`${API_BASE}/themes`);
+  if (!res.ok) {
+    throw await readError(res, 'Failed to load themes');
+  }
+  return res.json();
+}
+
+export async function uploadMemePack(file: File): Promise<MemePackSummary> {
+  const isZip = file.name.toLowerCase().endsWith('.zip');
+  const res = await fetch(`${API_BASE}/packs`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': isZip ? 'application/zip' : 'application/json'
+    },
+    body: file
+  });
+  if (!res.ok) {
+    throw await readError(res, 'Failed to upload meme pack');
+  }
+  return res.json();
+}
+
+export async function createPromptPack(payload: { name: string; prompts: string[] }): Promise<PromptPackSummary> {
+  const res = await fetch(`${API_BASE}/prompt-packs`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(payload)
+  });
+  if (!res.ok) {
+    throw await readError(res, 'Failed to save prompts');
+  }
+  return res.json();
+}
+
+/** Pack images are served by the API, so server-relative `/api/…` URLs need the API origin. */
+export function resolveAssetUrl(url: string): string {
+  return url.startsWith('/api/') ? `${API_BASE}${url.slice('/api'.length)}` : url;
+}
+
+export async function getLeaderboards(): Promise<LeaderboardsResponse> {
+  const res = await fetch(`${API_BASE}/leaderboards`);
+  if (!res.ok) {
+    throw await readError(res, 'Failed to load leaderboards');
   }
   return res.json();
 }
@@ -0,0 +1,27 @@
+import type { Locale } from '@shared/types';
+import { LOCALES, useI18n } from '../i18n';
+
+interface LocaleSwitcherProps {
+  className?: string;
+}
+
+export default function LocaleSwitcher({ className }: LocaleSwitcherProps) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className={className}>
+      <span className="sr-only">{t('locale.label')}</span>
+      <select
+        value={locale}
+        onChange={(event) => setLocale(event.target.value as Locale)}
+        className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-white"
+      >
+        {LOCALES.map((item) => (
+          <option key={item.id} value={item.id}>
+            {item.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
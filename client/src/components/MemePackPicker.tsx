@@ -0,0 +1,62 @@
+import { ChangeEvent, useState } from 'react';
+import type { MemePackSummary } from '@shared/types';
+import { uploadMemePack } from '../api';
+import { useSavedPacks } from '../hooks/useSavedPacks';
+import { useI18n } from '../i18n';
+
+interface MemePackPickerProps {
+  value?: string;
+  onChange: (packId: string | undefined) => void;
+  className?: string;
+}
+
+export default function MemePackPicker({ value, onChange, className }: MemePackPickerProps) {
+  const { t } = useI18n();
+  const [packs, addPack] = useSavedPacks<MemePackSummary>('meme-game:packs');
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isUnknownPack = Boolean(value) && !packs.some((pack) => pack.id === value);
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setUploading(true);
+    setError(null);
+    try {
+      const pack = await uploadMemePack(file);
+      addPack(pack);
+      onChange(pack.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('memePack.failed'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={value ?? ''}
+          onChange={(event) => onChange(event.target.value || undefined)}
+          className="flex-1 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
+        >
+          <option value="">{t('memePack.default')}</option>
+          {packs.map((pack) => (
+            <option key={pack.id} value={pack.id}>
+              {pack.name} ({pack.memeCount})
+            </option>
+          ))}
+          {isUnknownPack && <option value={value}>{t('memePack.custom')}</option>}
+        </select>
+        <label className="cursor-pointer rounded-lg border border-slate-700 px-3 py-2 text-sm text-slate-300 transition hover:border-brand hover:text-white">
+          {uploading ? t('memePack.uploading') : t('memePack.upload')}
+          <input type="file" accept=".zip,.json,application/zip,application/json" className="hidden" onChange={handleUpload} disabled={uploading} />
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-slate-400">{t('memePack.hint')}</p>
+      {error && <p className="mt-1 text-sm text-rose-400">{error}</p>}
+    </div>
+  );
+}
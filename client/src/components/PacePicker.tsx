@@ -0,0 +1,62 @@
+import { PACE_PRESETS, PHASE_DURATION_LIMITS, type GamePace, type PhaseDurations } from '@shared/types';
+import { useI18n } from '../i18n';
+
+interface PacePickerProps {
+  pace?: GamePace;
+  durations?: PhaseDurations;
+  onChange: (changes: { pace: GamePace; durations?: PhaseDurations }) => void;
+  className?: string;
+}
+
+const PACES: GamePace[] = ['blitz', 'standard', 'chill', 'custom', 'untimed'];
+const PHASES: Array<keyof PhaseDurations> = ['selection', 'voting', 'results'];
+
+export default function PacePicker({ pace = 'standard', durations, onChange, className }: PacePickerProps) {
+  const { t } = useI18n();
+  const current = durations ?? PACE_PRESETS.standard;
+
+  const handlePace = (next: GamePace) => {
+    if (next === 'untimed') {
+      onChange({ pace: next });
+    } else if (next === 'custom') {
+      // Start from whatever timings the lobby had, so switching to custom changes nothing yet.
+      onChange({ pace: next, durations: { ...current } });
+    } else {
+      onChange({ pace: next, durations: { ...PACE_PRESETS[next] } });
+    }
+  };
+
+  return (
+    <div className={className}>
+      <select
+        value={pace}
+        onChange={(event) => handlePace(event.target.value as GamePace)}
+        className="w-full rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
+      >
+        {PACES.map((item) => (
+          <option key={item} value={item}>
+            {t(`pace.${item}`)}
+          </option>
+        ))}
+      </select>
+      {pace === 'untimed' && <p className="mt-1 text-xs text-slate-400">{t('pace.untimedHint')}</p>}
+      {pace === 'custom' && (
+        <div className="mt-3 grid gap-3 sm:grid-cols-3">
+          {PHASES.map((phase) => (
+            <label key={phase} className="flex flex-col text-xs text-slate-400">
+              {t(`pace.seconds.${phase}`)}
+              <input
+                type="number"
+                min={PHASE_DURATION_LIMITS[phase].min}
+                max={PHASE_DURATION_LIMITS[phase].max}
+                value={current[phase]}
+                onChange={(event) => onChange({ pace, durations: { ...current, [phase]: Number(event.target.value) } })}
+                className="mt-1 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
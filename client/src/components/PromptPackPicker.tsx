@@ -0,0 +1,138 @@
+import { ChangeEvent, useState } from 'react';
+import type { PromptMix, PromptPackSummary } from '@shared/types';
+import { createPromptPack } from '../api';
+import { useSavedPacks } from '../hooks/useSavedPacks';
+import { useI18n } from '../i18n';
+
+interface PromptPackPickerProps {
+  packId?: string;
+  mix?: PromptMix;
+  onChange: (changes: { promptPackId?: string; promptMix?: PromptMix }) => void;
+  className?: string;
+}
+
+/** Accepts one prompt per line, or a JSON array of strings. */
+function parsePromptList(text: string): string[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed) as unknown;
+      if (Array.isArray(parsed)) {
+        return parsed.filter((item): item is string => typeof item === 'string');
+      }
+    } catch (err) {
+      // Fall through and treat it as plain lines.
+    }
+  }
+  return trimmed
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export default function PromptPackPicker({ packId, mix, onChange, className }: PromptPackPickerProps) {
+  const { t } = useI18n();
+  const [packs, addPack] = useSavedPacks<PromptPackSummary>('meme-game:prompt-packs');
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isUnknownPack = Boolean(packId) && !packs.some((pack) => pack.id === packId);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setText(await file.text());
+    setName((prev) => prev || file.name.replace(/\.[^.]+$/, ''));
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const pack = await createPromptPack({ name, prompts: parsePromptList(text) });
+      addPack(pack);
+      onChange({ promptPackId: pack.id, promptMix: mix ?? 'mixed' });
+      setEditing(false);
+      setText('');
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('promptPack.failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={packId ?? ''}
+          onChange={(event) => onChange({ promptPackId: event.target.value || undefined, promptMix: mix })}
+          className="flex-1 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
+        >
+          <option value="">{t('promptPack.builtinOnly')}</option>
+          {packs.map((pack) => (
+            <option key={pack.id} value={pack.id}>
+              {pack.name} ({pack.promptCount})
+            </option>
+          ))}
+          {isUnknownPack && <option value={packId}>{t('promptPack.custom')}</option>}
+        </select>
+        {packId && (
+          <select
+            value={mix ?? 'mixed'}
+            onChange={(event) => onChange({ promptPackId: packId, promptMix: event.target.value as PromptMix })}
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
+          >
+            <option value="mixed">{t('promptPack.mix.mixed')}</option>
+            <option value="custom">{t('promptPack.mix.custom')}</option>
+            <option value="builtin">{t('promptPack.mix.builtin')}</option>
+          </select>
+        )}
+        <button
+          type="button"
+          onClick={() => setEditing((prev) => !prev)}
+          className="rounded-lg border border-slate-700 px-3 py-2 text-sm text-slate-300 transition hover:border-brand hover:text-white"
+        >
+          {editing ? t('promptPack.cancel') : t('promptPack.new')}
+        </button>
+      </div>
+      {editing && (
+        <div className="mt-3 space-y-3 rounded-xl border border-slate-800 bg-slate-950/60 p-4">
+          <input
+            className="w-full rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
+            placeholder={t('promptPack.namePlaceholder')}
+            value={name}
+            maxLength={60}
+            onChange={(event) => setName(event.target.value)}
+          />
+          <textarea
+            className="h-32 w-full rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-white"
+            placeholder={t('promptPack.textPlaceholder')}
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="cursor-pointer rounded-lg border border-slate-700 px-3 py-2 text-sm text-slate-300 transition hover:border-brand hover:text-white">
+              {t('promptPack.loadFile')}
+              <input type="file" accept=".txt,.json,text/plain,application/json" className="hidden" onChange={handleFile} />
+            </label>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving || !text.trim()}
+              className="rounded-lg bg-brand px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-light disabled:cursor-not-allowed disabled:opacity-70"
+            >
+              {saving ? t('promptPack.saving') : t('promptPack.save')}
+            </button>
+          </div>
+        </div>
+      )}
+      {error && <p className="mt-1 text-sm text-rose-400">{error}</p>}
+    </div>
+  );
+}
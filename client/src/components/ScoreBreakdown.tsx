@@ -0,0 +1,39 @@
+import type { RoundResultEntry, ScoringMethod } from '@shared/types';
+import { useI18n } from '../i18n';
+
+interface ScoreBreakdownProps {
+  entry: RoundResultEntry;
+  scoring?: ScoringMethod;
+  /** A judge round: the only thing to explain is whether the judge picked this meme. */
+  judged?: boolean;
+  className?: string;
+}
+
+/** Explains a round result in the terms of the lobby's scoring method. */
+export default function ScoreBreakdown({ entry, scoring = 'borda', judged, className }: ScoreBreakdownProps) {
+  const { t } = useI18n();
+  const placements = entry.breakdown.join(' / ');
+  const count = entry.breakdown[0] ?? 0;
+  const summary = judged ? (count ? t('judge.picked') : t('judge.notPicked')) : {
+    borda: t('scoring.breakdown.placements', { placements }),
+    unanimousBonus: t('scoring.breakdown.placements', { placements }),
+    plurality: t('scoring.breakdown.votes', { count }),
+    approval: t('scoring.breakdown.approvals', { count }),
+    top3: t('scoring.breakdown.top3', { placements })
+  }[scoring];
+
+  return (
+    <p className={className}>
+      {summary}
+      {entry.bonus ? <span className="ml-2 font-semibold text-brand">{t('scoring.breakdown.bonus', { points: entry.bonus })}</span> : null}
+      {entry.audiencePoints !== undefined && (
+        <span className="block">
+          {entry.audienceShare
+            ? t('audience.roundShare', { points: entry.audiencePoints, share: entry.audienceShare })
+            : t('audience.roundPoints', { points: entry.audiencePoints })}
+          {entry.audienceFavorite && <span className="ml-2 font-semibold text-brand">{t('audience.favorite')}</span>}
+        </span>
+      )}
+    </p>
+  );
+}
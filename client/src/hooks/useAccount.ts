@@ -0,0 +1,41 @@
+import { useCallback, useState } from 'react';
+import { createProfile } from '../api';
+
+const ACCOUNT_KEY = 'meme-game:account';
+
+export interface StoredAccount {
+  profileId: string;
+  profileToken: string;
+}
+
+/** The device's persistent profile, if the player opted into one. */
+export function loadAccount(): StoredAccount | null {
+  const stored = window.localStorage.getItem(ACCOUNT_KEY);
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored) as StoredAccount;
+    return parsed.profileId && parsed.profileToken ? parsed : null;
+  } catch (err) {
+    console.warn('Invalid stored account', err);
+    return null;
+  }
+}
+
+export function useAccount() {
+  const [account, setAccount] = useState<StoredAccount | null>(loadAccount);
+
+  const create = useCallback(async (name: string, avatar: string) => {
+    const { profile, profileToken } = await createProfile({ name, avatar });
+    const created = { profileId: profile.id, profileToken };
+    window.localStorage.setItem(ACCOUNT_KEY, JSON.stringify(created));
+    setAccount(created);
+    return created;
+  }, []);
+
+  const forget = useCallback(() => {
+    window.localStorage.removeItem(ACCOUNT_KEY);
+    setAccount(null);
+  }, []);
+
+  return { account, create, forget };
+}
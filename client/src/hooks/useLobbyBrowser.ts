@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { io, Socket } from 'socket.io-client';
+import type { ClientToServerEvents, PublicLobby, ServerToClientEvents } from '@shared/types';
+import { listLobbies } from '../api';
+import { SOCKET_URL } from './useSocketLobby';
+
+type BrowserSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+/** Public lobbies open for joining, kept current by the server while the component is mounted. */
+export function useLobbyBrowser(): { lobbies: PublicLobby[]; loading: boolean } {
+  const [lobbies, setLobbies] = useState<PublicLobby[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    listLobbies()
+      .then((data) => {
+        if (!cancelled) setLobbies(data);
+      })
+      .catch((err) => console.warn('Failed to load lobbies', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    const socket: BrowserSocket = io(SOCKET_URL, { transports: ['websocket'] });
+    const handleList = (data: PublicLobby[]) => {
+      setLobbies(data);
+      setLoading(false);
+    };
+    // Re-subscribe after reconnects; the server forgets room membership with the old socket.
+    const handleConnect = () => socket.emit('lobbies:watch');
+    socket.on('lobbies:list', handleList);
+    socket.on('connect', handleConnect);
+
+    return () => {
+      cancelled = true;
+      socket.off('lobbies:list', handleList);
+      socket.off('connect', handleConnect);
+      socket.emit('lobbies:unwatch');
+      socket.disconnect();
+    };
+  }, []);
+
+  return { lobbies, loading };
+}
@@ -0,0 +1,31 @@
+import { useCallback, useState } from 'react';
+
+function readPacks<T>(storageKey: string): T[] {
+  const stored = window.localStorage.getItem(storageKey);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored) as T[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.warn('Invalid stored packs', err);
+    return [];
+  }
+}
+
+/** Packs this browser uploaded, remembered so the host can pick them again later. */
+export function useSavedPacks<T extends { id: string }>(storageKey: string): [T[], (pack: T) => void] {
+  const [packs, setPacks] = useState<T[]>(() => readPacks<T>(storageKey));
+
+  const addPack = useCallback(
+    (pack: T) => {
+      setPacks((prev) => {
+        const next = [pack, ...prev.filter((item) => item.id !== pack.id)];
+        window.localStorage.setItem(storageKey, JSON.stringify(next));
+        return next;
+      });
+    },
+    [storageKey]
+  );
+
+  return [packs, addPack];
+}
@@ -1,44 +1,174 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
-import type {
-  ClientToServerEvents,
-  JoinLobbyRequest,
-  JoinLobbyResponse,
-  LobbyStatePayload,
-  ServerToClientEvents,
-  SubmitMemePayload,
-  SubmitVotePayload,
-  UpdateSettingsPayload
+import {
+  GameErrorCode,
+  type ActionResult,
+  type ClientToServerEvents,
+  type ExtendPhasePayload,
+  type GameError,
+  type JoinLobbyRequest,
+  type JoinLobbyResponse,
+  type KickPlayerPayload,
+  type Locale,
+  type LobbyStatePayload,
+  type LockLobbyPayload,
+  type PausePhasePayload,
+  type RematchPayload,
+  type ServerToClientEvents,
+  type SetSpectatorPayload,
+  type SubmitMemePayload,
+  type SubmitVotePayload,
+  type TransferHostPayload,
+  type UpdateSettingsPayload
 } from '@shared/types';
+import { currentLocale, translate } from '../i18n';
+import { loadAccount } from './useAccount';
 
-const SOCKET_URL = (import.meta.env.VITE_SOCKET_URL as string | undefined) ?? window.location.origin;
+export const SOCKET_URL = (import.meta.env.VITE_SOCKET_URL as string | undefined) ?? window.location.origin;
+
+// Slightly above the server's cross-instance request timeout, so a forwarded action can still answer.
+const ACK_TIMEOUT_MS = 8000;
+const MAX_ATTEMPTS = 3;
+
+export type LobbyActionKind =
+  | 'updateName'
+  | 'updateAvatar'
+  | 'updateSettings'
+  | 'startGame'
+  | 'submitMeme'
+  | 'submitVote'
+  | 'kickPlayer'
+  | 'transferHost'
+  | 'setLocked'
+  | 'setSpectator'
+  | 'setPaused'
+  | 'skipPhase'
+  | 'extendPhase'
+  | 'endGame'
+  | 'rematch';
+
+interface ActionArgs {
+  updateName: [name: string];
+  updateAvatar: [avatar: string];
+  updateSettings: [payload: UpdateSettingsPayload];
+  startGame: [];
+  submitMeme: [payload: SubmitMemePayload];
+  submitVote: [payload: SubmitVotePayload];
+  kickPlayer: [payload: KickPlayerPayload];
+  transferHost: [payload: TransferHostPayload];
+  setLocked: [payload: LockLobbyPayload];
+  setSpectator: [payload: SetSpectatorPayload];
+  setPaused: [payload: PausePhasePayload];
+  skipPhase: [];
+  extendPhase: [payload: ExtendPhasePayload];
+  endGame: [];
+  rematch: [payload: RematchPayload];
+}
+
+const ACTION_EVENTS: Record<LobbyActionKind, keyof ClientToServerEvents> = {
+  updateName: 'player:updateName',
+  updateAvatar: 'player:updateAvatar',
+  updateSettings: 'game:updateSettings',
+  startGame: 'game:start',
+  submitMeme: 'submission:submit',
+  submitVote: 'vote:submit',
+  kickPlayer: 'host:kick',
+  transferHost: 'host:transfer',
+  setLocked: 'host:lock',
+  setSpectator: 'host:setSpectator',
+  setPaused: 'host:pause',
+  skipPhase: 'host:skip',
+  extendPhase: 'host:extend',
+  endGame: 'host:endGame',
+  rematch: 'game:rematch'
+};
+
+type StatePatch = (state: LobbyStatePayload) => LobbyStatePayload;
+
+interface QueuedAction {
+  id: number;
+  kind: LobbyActionKind;
+  args: unknown[];
+  attempts: number;
+  /** Lets a retry resolve without resending when the state shows the first attempt already landed. */
+  isApplied?: (state: LobbyStatePayload) => boolean;
+  resolve: (result: ActionResult) => void;
+}
+
+type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// The socket.io typings cannot spread a tuple picked by a union of event names, so this one emit is
+// untyped; ActionArgs keeps the public methods typed.
+function emitWithAck(socket: GameSocket, event: string, args: unknown[], onAck: (err: Error | null, result?: ActionResult) => void) {
+  const emitter = socket.timeout(ACK_TIMEOUT_MS) as unknown as { emit: (event: string, ...rest: unknown[]) => void };
+  emitter.emit(event, ...args, onAck);
+}
+
+function patchYou(state: LobbyStatePayload, changes: Partial<LobbyStatePayload['players'][number]>): LobbyStatePayload {
+  const youId = state.you?.id;
+  return { ...state, players: state.players.map((player) => (player.id === youId ? { ...player, ...changes } : player)) };
+}
+
+function joinFailure(response: JoinLobbyResponse, locale?: Locale): GameError {
+  return (
+    response.error ?? {
+      code: GameErrorCode.Internal,
+      message: response.message ?? translate(locale ?? currentLocale(), 'lobby.join.failed')
+    }
+  );
+}
 
 export interface LobbyConnection {
   state: LobbyStatePayload | null;
-  error: string | null;
+  error: GameError | null;
   connectionStatus: 'idle' | 'connecting' | 'connected';
-  joinLobby: (data: { lobbyId: string; name: string; avatar: string; spectator?: boolean }) => Promise<JoinLobbyResponse>;
-  submitMeme: (payload: SubmitMemePayload) => void;
-  submitVote: (payload: SubmitVotePayload) => void;
-  startGame: () => void;
-  updateSettings: (payload: UpdateSettingsPayload) => void;
-  updateName: (name: string) => void;
-  updateAvatar: (avatar: string) => void;
+  /** Actions still waiting for the server to acknowledge them. */
+  pending: Partial<Record<LobbyActionKind, boolean>>;
+  joinLobby: (data: {
+    lobbyId: string;
+    name: string;
+    avatar: string;
+    spectator?: boolean;
+    password?: string;
+    locale?: Locale;
+  }) => Promise<JoinLobbyResponse>;
+  submitMeme: (payload: SubmitMemePayload) => Promise<ActionResult>;
+  submitVote: (payload: SubmitVotePayload) => Promise<ActionResult>;
+  startGame: () => Promise<ActionResult>;
+  updateSettings: (payload: UpdateSettingsPayload) => Promise<ActionResult>;
+  updateName: (name: string) => Promise<ActionResult>;
+  updateAvatar: (avatar: string) => Promise<ActionResult>;
+  kickPlayer: (payload: KickPlayerPayload) => Promise<ActionResult>;
+  transferHost: (payload: TransferHostPayload) => Promise<ActionResult>;
+  setLocked: (payload: LockLobbyPayload) => Promise<ActionResult>;
+  setSpectator: (payload: SetSpectatorPayload) => Promise<ActionResult>;
+  setPaused: (payload: PausePhasePayload) => Promise<ActionResult>;
+  skipPhase: () => Promise<ActionResult>;
+  extendPhase: (payload: ExtendPhasePayload) => Promise<ActionResult>;
+  endGame: () => Promise<ActionResult>;
+  rematch: (payload: RematchPayload) => Promise<ActionResult>;
   disconnect: () => void;
 }
 
 export function useSocketLobby(lobbyId: string): LobbyConnection {
-  const [state, setState] = useState<LobbyStatePayload | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [serverState, setServerState] = useState<LobbyStatePayload | null>(null);
+  const [patches, setPatches] = useState<Array<{ id: number; apply: StatePatch }>>([]);
+  const [pendingCounts, setPendingCounts] = useState<Partial<Record<LobbyActionKind, number>>>({});
+  const [error, setError] = useState<GameError | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'connecting' | 'connected'>('idle');
-  const socketRef = useRef<Socket<ServerToClientEvents, ClientToServerEvents> | null>(null);
-  const storageKey = useMemo(() => `meme-game:lobby:${lobbyId}`, [lobbyId]);
+  const socketRef = useRef<GameSocket | null>(null);
+  const serverStateRef = useRef<LobbyStatePayload | null>(null);
+  const joinedRef = useRef(false);
+  const lastJoinRef = useRef<JoinLobbyRequest | null>(null);
+  const queueRef = useRef<QueuedAction[]>([]);
+  const nextActionId = useRef(0);
+  const storageKey = useMemo(() => `meme-game:session:${lobbyId}`, [lobbyId]);
 
   if (!socketRef.current) {
     socketRef.current = io(SOCKET_URL, {
       autoConnect: false,
       transports: ['websocket']
-    }) as Socket<ServerToClientEvents, ClientToServerEvents>;
+    }) as GameSocket;
   }
 
   const socket = socketRef.current;
@@ -46,111 +176,352 @@ export function useSocketLobby(lobbyId: string): LobbyConnection {
     throw new Error('Socket connection failed to initialize');
   }
 
+  // Optimistic patches sit on top of the last server state until their action is acknowledged.
+  const state = useMemo(
+    () => (serverState ? patches.reduce((current, patch) => patch.apply(current), serverState) : null),
+    [serverState, patches]
+  );
+
+  const settle = useCallback((action: QueuedAction, result: ActionResult) => {
+    setPatches((prev) => prev.filter((patch) => patch.id !== action.id));
+    setPendingCounts((prev) => ({ ...prev, [action.kind]: Math.max(0, (prev[action.kind] ?? 1) - 1) }));
+    if (!result.ok) {
+      setError(result.error);
+    }
+    action.resolve(result);
+  }, []);
+
+  const send = useCallback(
+    (action: QueuedAction) => {
+      if (!socket.connected || !joinedRef.current) {
+        queueRef.current.push(action);
+        return;
+      }
+      // A retry whose earlier attempt already shows in the state is done; resending could apply it twice.
+      const latest = serverStateRef.current;
+      if (action.attempts > 0 && latest && action.isApplied?.(latest)) {
+        settle(action, { ok: true });
+        return;
+      }
+      action.attempts += 1;
+      emitWithAck(socket, ACTION_EVENTS[action.kind], action.args, (err, result) => {
+        if (!err && result) {
+          // A slow first attempt (a game start loading its deck) can land before the retry, which then
+          // finds the phase already moved on.
+          const current = serverStateRef.current;
+          const alreadyApplied = action.attempts > 1 && current !== null && action.isApplied?.(current);
+          if (!result.ok && result.error.code === GameErrorCode.WrongPhase && alreadyApplied) {
+            settle(action, { ok: true });
+            return;
+          }
+          settle(action, result);
+          return;
+        }
+        if (action.attempts < MAX_ATTEMPTS) {
+          // No ack: either the connection dropped (queued until we rejoin) or the server was slow (resent).
+          send(action);
+          return;
+        }
+        settle(action, {
+          ok: false,
+          error: { code: GameErrorCode.LobbyUnavailable, message: translate(currentLocale(), 'error.noResponse') }
+        });
+      });
+    },
+    [socket, settle]
+  );
+
+  const flushQueue = useCallback(() => {
+    for (const action of queueRef.current.splice(0)) {
+      send(action);
+    }
+  }, [send]);
+
   useEffect(() => {
     const handleState = (payload: LobbyStatePayload) => {
-      setState(payload);
+      serverStateRef.current = payload;
+      setServerState(payload);
       setError(null);
       setConnectionStatus('connected');
     };
-    const handleError = (message: string) => {
-      setError(message);
+    const handleError = (failure: GameError) => {
+      setError(failure);
+    };
+    // The stored token is kept: a kicked player may rejoin as themselves, a banned one is refused.
+    const handleKicked = (notice: GameError) => {
+      lastJoinRef.current = null;
+      joinedRef.current = false;
+      serverStateRef.current = null;
+      setServerState(null);
+      setPatches([]);
+      setConnectionStatus('idle');
+      setError(notice);
+    };
+    // After a reconnect the server no longer knows this socket, so the seat is claimed again before
+    // anything queued while offline is sent.
+    const handleConnect = () => {
+      setConnectionStatus('connected');
+      const rejoin = lastJoinRef.current;
+      if (!rejoin) return;
+      socket.emit('player:join', rejoin, (response: JoinLobbyResponse) => {
+        if (!response.ok) {
+          const failure = joinFailure(response, rejoin.locale);
+          for (const action of queueRef.current.splice(0)) {
+            settle(action, { ok: false, error: failure });
+          }
+          if (failure.code === GameErrorCode.LobbyClosed || failure.code === GameErrorCode.LobbyNotFound) {
+            // The lobby expired while this player was away; drop back to the join card with the notice.
+            window.localStorage.removeItem(storageKey);
+            handleKicked(failure);
+            return;
+          }
+          setError(failure);
+          return;
+        }
+        // Each join reissues the token; keeping the old one would lock this tab out once it ages past the limit.
+        if (response.sessionToken) {
+          window.localStorage.setItem(storageKey, response.sessionToken);
+          lastJoinRef.current = { ...rejoin, sessionToken: response.sessionToken };
+        }
+        joinedRef.current = true;
+        flushQueue();
+      });
+    };
+    const handleDisconnect = () => {
+      joinedRef.current = false;
+      setConnectionStatus('idle');
     };
 
     socket.on('lobby:state', handleState);
     socket.on('lobby:error', handleError);
-    socket.on('connect', () => setConnectionStatus('connected'));
-    socket.on('disconnect', () => setConnectionStatus('idle'));
+    socket.on('lobby:kicked', handleKicked);
+    socket.on('connect', handleConnect);
+    socket.on('disconnect', handleDisconnect);
 
     return () => {
       socket.emit('player:leave');
       socket.off('lobby:state', handleState);
       socket.off('lobby:error', handleError);
-      socket.removeListener('connect');
-      socket.removeListener('disconnect');
+      socket.off('lobby:kicked', handleKicked);
+      socket.off('connect', handleConnect);
+      socket.off('disconnect', handleDisconnect);
       socket.disconnect();
       socketRef.current = null;
+      joinedRef.current = false;
+      lastJoinRef.current = null;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [socket, lobbyId]);
 
   const joinLobby = useCallback(
-    ({ lobbyId: id, name, avatar, spectator }: { lobbyId: string; name: string; avatar: string; spectator?: boolean }) => {
+    ({
+      lobbyId: id,
+      name,
+      avatar,
+      spectator,
+      password,
+      locale
+    }: {
+      lobbyId: string;
+      name: string;
+      avatar: string;
+      spectator?: boolean;
+      password?: string;
+      locale?: Locale;
+    }) => {
       const stored = window.localStorage.getItem(storageKey) || undefined;
       const payload: JoinLobbyRequest = {
         lobbyId: id,
-        playerId: stored,
+        sessionToken: stored,
+        profileToken: loadAccount()?.profileToken,
         name,
         avatar,
-        spectator
+        spectator,
+        password: password || undefined,
+        locale
       };
       setConnectionStatus('connecting');
       return new Promise<JoinLobbyResponse>((resolve, reject) => {
         socket.connect();
         socket.emit('player:join', payload, (response: JoinLobbyResponse) => {
           if (!response.ok) {
+            const failure = joinFailure(response, locale);
+            if (
+              failure.code === GameErrorCode.LobbyNotFound ||
+              failure.code === GameErrorCode.LobbyClosed ||
+              failure.code === GameErrorCode.InvalidSession
+            ) {
+              // The stored seat can never be reclaimed, so the next attempt joins as a new player.
+              window.localStorage.removeItem(storageKey);
+            }
             setConnectionStatus('idle');
-            setError(response.message ?? 'Unable to join lobby');
-            reject(new Error(response.message ?? 'Unable to join lobby'));
+            setError(failure);
+            reject(new Error(failure.message));
             return;
           }
-          window.localStorage.setItem(storageKey, response.playerId);
+          if (response.sessionToken) {
+            window.localStorage.setItem(storageKey, response.sessionToken);
+          }
+          // Reconnects rejoin as this player rather than as a newcomer.
+          lastJoinRef.current = { ...payload, sessionToken: response.sessionToken ?? stored, spectator: response.spectator };
+          joinedRef.current = true;
           setConnectionStatus('connected');
+          flushQueue();
           resolve(response);
         });
       });
     },
-    [socket, storageKey]
+    [socket, storageKey, flushQueue]
+  );
+
+  const runAction = useCallback(
+    <K extends LobbyActionKind>(
+      kind: K,
+      args: ActionArgs[K],
+      options: { optimistic?: StatePatch; isApplied?: (state: LobbyStatePayload) => boolean } = {}
+    ) =>
+      new Promise<ActionResult>((resolve) => {
+        nextActionId.current += 1;
+        const action: QueuedAction = { id: nextActionId.current, kind, args, attempts: 0, isApplied: options.isApplied, resolve };
+        const { optimistic } = options;
+        if (optimistic) {
+          setPatches((prev) => [...prev, { id: action.id, apply: optimistic }]);
+        }
+        setPendingCounts((prev) => ({ ...prev, [kind]: (prev[kind] ?? 0) + 1 }));
+        send(action);
+      }),
+    [send]
   );
 
   const submitMeme = useCallback(
-    (payload: SubmitMemePayload) => {
-      socket.emit('submission:submit', payload);
-    },
-    [socket]
+    (payload: SubmitMemePayload) =>
+      runAction('submitMeme', [payload], {
+        optimistic: (current) => ({
+          ...patchYou(current, { submitted: true }),
+          you: current.you ? { ...current.you, submittedMemeId: payload.memeId } : current.you
+        }),
+        isApplied: (current) => current.you?.submittedMemeId === payload.memeId
+      }),
+    [runAction]
   );
 
   const submitVote = useCallback(
-    (payload: SubmitVotePayload) => {
-      socket.emit('vote:submit', payload);
-    },
-    [socket]
+    (payload: SubmitVotePayload) => runAction('submitVote', [payload], { optimistic: (current) => patchYou(current, { voted: true }) }),
+    [runAction]
   );
 
-  const startGame = useCallback(() => {
-    socket.emit('game:start');
-  }, [socket]);
+  const startGame = useCallback(
+    () => runAction('startGame', [], { isApplied: (current) => current.phase !== 'lobby' && current.phase !== 'finalResults' }),
+    [runAction]
+  );
 
   const updateSettings = useCallback(
-    (payload: UpdateSettingsPayload) => {
-      socket.emit('game:updateSettings', payload);
-    },
-    [socket]
+    (payload: UpdateSettingsPayload) =>
+      runAction('updateSettings', [payload], { optimistic: (current) => ({ ...current, settings: payload.settings }) }),
+    [runAction]
   );
 
   const updateName = useCallback(
-    (name: string) => {
-      socket.emit('player:updateName', name);
-    },
-    [socket]
+    (name: string) => runAction('updateName', [name], { optimistic: (current) => patchYou(current, { name }) }),
+    [runAction]
   );
 
   const updateAvatar = useCallback(
-    (avatar: string) => {
-      socket.emit('player:updateAvatar', avatar);
+    (avatar: string) => runAction('updateAvatar', [avatar], { optimistic: (current) => patchYou(current, { avatar }) }),
+    [runAction]
+  );
+
+  const kickPlayer = useCallback(
+    (payload: KickPlayerPayload) =>
+      runAction('kickPlayer', [payload], {
+        optimistic: (current) => ({ ...current, players: current.players.filter((player) => player.id !== payload.playerId) })
+      }),
+    [runAction]
+  );
+
+  const transferHost = useCallback(
+    (payload: TransferHostPayload) =>
+      runAction('transferHost', [payload], {
+        optimistic: (current) => ({
+          ...current,
+          hostId: payload.playerId,
+          players: current.players.map((player) => ({ ...player, isHost: player.id === payload.playerId }))
+        })
+      }),
+    [runAction]
+  );
+
+  const setLocked = useCallback(
+    (payload: LockLobbyPayload) => runAction('setLocked', [payload], { optimistic: (current) => ({ ...current, locked: payload.locked }) }),
+    [runAction]
+  );
+
+  const setSpectator = useCallback(
+    (payload: SetSpectatorPayload) =>
+      runAction('setSpectator', [payload], {
+        optimistic: (current) => ({
+          ...current,
+          players: current.players.map((player) => (player.id === payload.playerId ? { ...player, spectator: payload.spectator } : player))
+        })
+      }),
+    [runAction]
+  );
+
+  const setPaused = useCallback(
+    (payload: PausePhasePayload) =>
+      runAction('setPaused', [payload], {
+        optimistic: (current) => (current.round ? { ...current, round: { ...current.round, paused: payload.paused } } : current)
+      }),
+    [runAction]
+  );
+
+  // Skips and extensions are not idempotent, so a retry only goes out if the state shows no effect yet.
+  const skipPhase = useCallback(() => {
+    const before = serverStateRef.current?.round;
+    return runAction('skipPhase', [], {
+      isApplied: (current) => current.round?.phase !== before?.phase || current.round?.roundNumber !== before?.roundNumber
+    });
+  }, [runAction]);
+
+  const extendPhase = useCallback(
+    (payload: ExtendPhasePayload) => {
+      const before = serverStateRef.current?.round;
+      return runAction('extendPhase', [payload], {
+        isApplied: (current) =>
+          (current.round?.endsAt ?? 0) > (before?.endsAt ?? 0) || (current.round?.remainingMs ?? 0) > (before?.remainingMs ?? 0)
+      });
     },
-    [socket]
+    [runAction]
+  );
+
+  const endGame = useCallback(() => runAction('endGame', [], { isApplied: (current) => current.phase === 'finalResults' }), [runAction]);
+
+  const rematch = useCallback(
+    (payload: RematchPayload) => runAction('rematch', [payload], { isApplied: (current) => current.phase !== 'finalResults' }),
+    [runAction]
   );
 
   const disconnect = useCallback(() => {
     socket.emit('player:leave');
     socket.disconnect();
+    lastJoinRef.current = null;
+    joinedRef.current = false;
     setConnectionStatus('idle');
   }, [socket]);
 
+  const pending = useMemo(() => {
+    const result: Partial<Record<LobbyActionKind, boolean>> = {};
+    for (const [kind, count] of Object.entries(pendingCounts) as Array<[LobbyActionKind, number]>) {
+      result[kind] = count > 0;
+    }
+    return result;
+  }, [pendingCounts]);
+
   return {
     state,
     error,
     connectionStatus,
+    pending,
     joinLobby,
     submitMeme,
     submitVote,
@@ -158,6 +529,15 @@ export function useSocketLobby(lobbyId: string): LobbyConnection {
     updateSettings,
     updateName,
     updateAvatar,
+    kickPlayer,
+    transferHost,
+    setLocked,
+    setSpectator,
+    setPaused,
+    skipPhase,
+    extendPhase,
+    endGame,
+    rematch,
     disconnect
   };
 }
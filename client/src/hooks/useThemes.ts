@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import type { ThemeInfo } from '@shared/types';
+import { getThemes } from '../api';
+
+let cachedThemes: ThemeInfo[] | null = null;
+
+export function useThemes(): ThemeInfo[] {
+  const [themes, setThemes] = useState<ThemeInfo[]>(cachedThemes ?? []);
+
+  useEffect(() => {
+    if (cachedThemes) return;
+    let cancelled = false;
+    getThemes()
+      .then((data) => {
+        cachedThemes = data;
+        if (!cancelled) setThemes(data);
+      })
+      .catch((err) => console.warn('Failed to load themes', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return themes;
+}
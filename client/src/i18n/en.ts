@@ -0,0 +1,274 @@
+export const en = {
+  'app.title': 'Meme Showdown',
+  'app.tagline': 'Host outrageous meme battles with friends in seconds.',
+  'locale.label': 'Language',
+
+  'profile.displayName': 'Display name',
+  'profile.avatar': 'Emoji avatar',
+  'profile.randomize': 'Randomize',
+
+  'settings.rounds': 'Rounds',
+  'settings.maxPlayers': 'Max players',
+  'settings.theme': 'Theme',
+  'settings.memeDeck': 'Meme deck',
+  'settings.prompts': 'Situation prompts',
+  'settings.promptLanguage': 'Prompt language',
+  'settings.password': 'Password (optional)',
+  'settings.passwordHint': 'New players need it to join.',
+  'settings.inviteOnly': 'Invite only: the join code will not work, only the link',
+  'settings.pace': 'Pace',
+  'settings.scoring': 'Scoring',
+  'settings.votingMode': 'Voting',
+  'settings.audience': 'Audience voting',
+  'settings.gameMode': 'Game mode',
+
+  'pace.blitz': 'Blitz (20s / 25s)',
+  'pace.standard': 'Standard (45s / 60s)',
+  'pace.chill': 'Chill (90s / 120s)',
+  'pace.custom': 'Custom timers',
+  'pace.untimed': 'Untimed',
+  'pace.untimedHint': 'No clock: each phase ends when everyone has acted or the host skips ahead.',
+  'pace.seconds.selection': 'Pick (seconds)',
+  'pace.seconds.voting': 'Vote (seconds)',
+  'pace.seconds.results': 'Results (seconds)',
+
+  'theme.fun': 'Fun',
+  'theme.university': 'University',
+  'theme.18+': '18+',
+  'theme.office': 'Office',
+  'theme.gaming': 'Gaming',
+
+  'landing.create.title': 'Create a Lobby',
+  'landing.create.subtitle': 'Configure rounds, pick a theme, and share the invite link.',
+  'landing.create.submit': 'Create lobby',
+  'landing.create.submitting': 'Creating…',
+  'landing.create.failed': 'Failed to create lobby',
+  'landing.join.title': 'Join with a code',
+  'landing.join.subtitle': 'Type the short code your host shared, or paste a lobby ID.',
+  'landing.join.placeholder': 'Code, e.g. K7QXM',
+  'landing.join.submit': 'Join lobby',
+  'landing.browse.title': 'Open lobbies',
+  'landing.browse.subtitle': 'Public games looking for players. The list updates by itself.',
+  'landing.browse.loading': 'Looking for lobbies…',
+  'landing.browse.empty': 'No open lobbies right now. Create one or try quick match.',
+  'landing.browse.host': 'Hosted by {name}',
+  'landing.browse.players': '{players}/{maxPlayers} players',
+  'landing.browse.join': 'Join',
+  'landing.quickMatch': 'Quick match',
+  'landing.quickMatch.searching': 'Finding a game…',
+  'landing.quickMatch.failed': 'Could not find a game',
+  'landing.how.title': 'How it works',
+  'landing.how.step1': 'Create your lobby and copy the invite link.',
+  'landing.how.step2': 'Everyone picks memes that match the situation prompt.',
+  'landing.how.step3': 'Rank the funniest memes, score points, and crown the winner!',
+
+  'lobby.notFound': 'Lobby not found.',
+  'lobby.loading': 'Loading lobby…',
+  'lobby.join.title': 'Join lobby',
+  'lobby.join.asPlayer': 'Join as player',
+  'lobby.join.joining': 'Joining…',
+  'lobby.join.spectate': 'Spectate',
+  'lobby.join.failed': 'Unable to join lobby',
+  'lobby.title': 'Lobby #{lobbyId}',
+  'lobby.summary': 'Theme: {theme} · Rounds: {rounds}',
+  'lobby.customDeck': 'Custom meme deck',
+  'lobby.customPrompts': 'Custom prompts',
+  'lobby.copyInvite': 'Copy invite link',
+  'lobby.start': 'Start game',
+  'lobby.starting': 'Starting…',
+  'lobby.exit': 'Exit',
+  'lobby.currentPhase': 'Current phase',
+  'lobby.timeRemaining': 'Time remaining',
+  'lobby.seconds': '{seconds}s',
+  'lobby.paused': 'Paused',
+  'lobby.pause': 'Pause',
+  'lobby.resume': 'Resume',
+  'lobby.extend': '+{seconds}s',
+  'lobby.skip': 'Skip to next phase',
+  'lobby.endGame': 'End game',
+  'lobby.endGameConfirm': 'End the game now? Current scores become final.',
+  'lobby.hostControls': 'Host controls',
+  'lobby.players': 'Players',
+  'lobby.lock': 'Lock lobby',
+  'lobby.unlock': 'Unlock lobby',
+  'lobby.locked': 'Locked',
+  'lobby.code': 'Code: {code}',
+  'lobby.inviteOnly': 'Invite only',
+  'lobby.join.password': 'Lobby password',
+
+  'phase.lobby': 'Lobby',
+  'phase.selection': 'Meme selection',
+  'phase.voting': 'Voting',
+  'phase.roundResults': 'Round results',
+  'phase.finalResults': 'Final results',
+
+  'player.host': 'Host',
+  'player.spectator': 'Spectator',
+  'player.player': 'Player',
+  'player.online': 'Online',
+  'player.offline': 'Offline',
+  'player.points': '{points} pts',
+  'player.kick': 'Kick',
+  'player.ban': 'Ban',
+  'player.banConfirm': 'Ban {name}? They will not be able to rejoin this lobby.',
+  'player.makeHost': 'Make host',
+  'player.makeSpectator': 'Make spectator',
+  'player.makePlayer': 'Make player',
+
+  'selection.title': 'Pick the perfect meme',
+  'selection.tapToSubmit': 'Tap to submit this meme',
+  'selection.locked': 'Meme locked in! Waiting for other players…',
+  'selection.cardAlt': 'Meme card',
+
+  'voting.title': 'Rank the funniest memes',
+  'voting.hint': 'Use the arrows to reorder from funniest to least.',
+  'voting.up': '▲ Up',
+  'voting.down': '▼ Down',
+  'voting.rank': 'Rank {rank}',
+  'voting.submit': 'Submit ranking',
+  'voting.submitting': 'Submitting…',
+  'voting.update': 'Update ranking',
+  'voting.approvalTitle': 'Pick every meme you liked',
+  'voting.approvalHint': 'Tap the memes that made you laugh. Pick as many as you like; each pick is a point.',
+  'voting.approve': 'Tap to like',
+  'voting.approved': 'Liked ✓',
+  'voting.favoriteTitle': 'Pick your favorite meme',
+  'voting.favoriteHint': 'Tap your favorite. Tap a second meme to add a runner-up if you like.',
+  'voting.pick': 'Tap to pick',
+  'voting.favorite': '★ Favorite',
+  'voting.runnerUp': 'Runner-up',
+  'voting.submitPicks': 'Submit picks',
+  'voting.updatePicks': 'Update picks',
+  'voting.submissionAlt': 'Submitted meme',
+
+  'scoring.borda': 'Classic ranking',
+  'scoring.plurality': 'Single vote',
+  'scoring.approval': 'Approval',
+  'scoring.top3': 'Top 3 weighted',
+  'scoring.unanimousBonus': 'Ranking with unanimous bonus',
+  'scoring.hint.borda': 'Players rank every meme. Last place earns 1 point and each place above it one more.',
+  'scoring.hint.plurality': 'Players still rank, but only each top pick scores: 1 point.',
+  'scoring.hint.approval': 'Players tick every meme they liked. Each tick is 1 point.',
+  'scoring.hint.top3': 'Players rank; first, second and third picks earn 3, 2 and 1 points.',
+  'scoring.hint.unanimousBonus': 'Classic ranking, plus an extra first place when every voter picks the same best meme.',
+  'scoring.breakdown.placements': 'Placements: {placements}',
+  'scoring.breakdown.votes': 'Top-pick votes: {count}',
+  'scoring.breakdown.approvals': 'Likes: {count}',
+  'scoring.breakdown.top3': '1st / 2nd / 3rd picks: {placements}',
+  'scoring.breakdown.bonus': 'Unanimous bonus +{points}',
+
+  'votingMode.ranking': 'Rank every meme',
+  'votingMode.favorite': 'Favorite (plus optional runner-up)',
+  'votingMode.approvalHint': 'Approval scoring always asks for a set of liked memes.',
+
+  'audience.off': 'Off: spectators just watch',
+  'audience.award': 'Audience favorite award',
+  'audience.blend': 'Blend into player scores',
+  'audience.weight': 'Audience weight (%)',
+  'audience.awardNotice': 'You are voting as the audience. Your picks decide the audience favorite and do not change the scores.',
+  'audience.blendNotice': 'You are voting as the audience. Together, the audience weighs as much as {weight}% of all player votes.',
+  'audience.ballots': 'Audience ballots: {count}',
+  'audience.roundPoints': 'Audience: {points} pts',
+  'audience.roundShare': 'Audience: {points} pts (+{share} added)',
+  'audience.favorite': '👏 Audience favorite',
+  'audience.finalTally': '👏 {favorites} audience favorites · {points} audience pts',
+
+  'gameMode.classic': 'Classic: everyone plays and votes',
+  'gameMode.judge': 'Judge: a rotating judge picks the winner',
+  'gameMode.hint.classic': 'Every player submits a meme and votes on the others.',
+  'gameMode.hint.judge': 'Each round one player judges instead of playing and alone picks the winner. Needs three players.',
+  'gameMode.scoringHint': 'In judge mode the winning meme scores 1 point.',
+  'judge.banner': 'Judge this round: {avatar} {name}',
+  'judge.you': 'You are the judge this round.',
+  'judge.selectionWait': 'You are judging this round. Sit back while the others pick their memes.',
+  'judge.votingWait': 'Waiting for {name} to pick the winner.',
+  'judge.votingTitle': 'Pick the winner',
+  'judge.votingHint': 'Tap the meme that fits the situation best.',
+  'judge.submit': 'Crown the winner',
+  'judge.update': 'Change the winner',
+  'judge.winner': '👑 Winner',
+  'judge.picked': '👑 Picked by the judge',
+  'judge.notPicked': 'Not picked by the judge',
+  'judge.archived': 'Judge: {name}',
+
+  'results.roundTitle': 'Round leaderboard',
+  'results.finalTitle': 'Final standings',
+  'results.moment': 'Round {round} · {situation}',
+  'results.momentPoints': '{points} points',
+  'results.winningAlt': 'Winning meme',
+
+  'series.title': 'Series · {games} games',
+  'series.record': '{wins} wins · {games} played · {points} pts',
+  'series.history': 'Past games',
+  'series.game': 'Game {number} · {theme}',
+  'series.rematch': 'Rematch',
+  'series.rematchNextTheme': 'Rematch with next theme',
+  'series.backToLobby': 'Back to lobby settings',
+
+  'archive.loading': 'Loading game…',
+  'archive.notFound': 'Game not found.',
+  'archive.home': 'Back to start',
+  'archive.backToLobby': 'Back to lobby',
+  'archive.playedOn': 'Finished {date}',
+  'archive.roundsPlayed': '{rounds} of {total} rounds played',
+  'archive.round': 'Round {round} of {total}',
+  'archive.previousRound': 'Previous round',
+  'archive.nextRound': 'Next round',
+  'archive.votes': 'Ballots',
+  'archive.noRounds': 'The game ended before any round was scored.',
+  'archive.unknownPlayer': 'Unknown player',
+  'account.create': 'Keep my stats across games',
+  'account.view': 'My profile & stats',
+  'account.failed': 'Could not create a profile',
+  'account.notFound': 'Profile not found',
+  'account.since': 'Playing since {date}',
+  'account.gamesPlayed': 'Games played',
+  'account.wins': 'Wins',
+  'account.roundsPlayed': 'Rounds played',
+  'account.averageRank': 'Average round rank',
+  'account.firstPlaceVotes': 'First-place votes',
+  'account.favoriteMemes': 'Best-scoring memes',
+  'account.noFavorites': 'No scoring memes yet — finish a game to start the collection.',
+  'account.deviceHint': 'This profile is linked to this browser only.',
+  'account.forget': 'Unlink it from this device',
+  'leaderboards.link': 'Leaderboards',
+  'leaderboards.title': 'Leaderboards',
+  'leaderboards.subtitle': 'Players with a profile, across every lobby.',
+  'leaderboards.failed': 'Failed to load leaderboards',
+  'leaderboards.board.rating': 'Rating',
+  'leaderboards.board.weekly': 'This week',
+  'leaderboards.board.monthly': 'This month',
+  'leaderboards.board.allTime': 'All time',
+  'leaderboards.sort.points': 'By points',
+  'leaderboards.sort.wins': 'By wins',
+  'leaderboards.period': 'Season {period}',
+  'leaderboards.wins': '{wins} wins',
+  'leaderboards.gamesPlayed': '{games} games',
+  'leaderboards.gamesRated': '{games} rated games',
+  'leaderboards.empty': 'Nobody here yet. Finish a game with a profile to get on the board.',
+
+  'memePack.default': 'Default memes',
+  'memePack.custom': 'Custom pack',
+  'memePack.upload': 'Upload pack',
+  'memePack.uploading': 'Uploading…',
+  'memePack.hint': 'ZIP of images (optional manifest.json with alt text) or a JSON manifest with image data URLs.',
+  'memePack.failed': 'Failed to upload meme pack',
+
+  'promptPack.builtinOnly': 'Built-in prompts only',
+  'promptPack.custom': 'Custom prompts',
+  'promptPack.mix.mixed': 'Mix with theme prompts',
+  'promptPack.mix.custom': 'Custom prompts only',
+  'promptPack.mix.builtin': 'Theme prompts only',
+  'promptPack.new': 'New prompts',
+  'promptPack.cancel': 'Cancel',
+  'promptPack.namePlaceholder': 'Pack name',
+  'promptPack.textPlaceholder': 'One situation per line',
+  'promptPack.loadFile': 'Load file',
+  'promptPack.save': 'Save prompts',
+  'promptPack.saving': 'Saving…',
+  'promptPack.failed': 'Failed to save prompts',
+
+  'error.noResponse': 'The server did not respond. Please try again.'
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,76 @@
+import { useCallback } from 'react';
+import { create } from 'zustand';
+import type { Locale, ThemeInfo } from '@shared/types';
+import { en, type MessageKey } from './en';
+import { kk } from './kk';
+import { ru } from './ru';
+
+export type { MessageKey };
+
+export const LOCALES: Array<{ id: Locale; label: string }> = [
+  { id: 'en', label: 'English' },
+  { id: 'ru', label: 'Русский' },
+  { id: 'kk', label: 'Қазақша' }
+];
+
+const LOCALE_KEY = 'meme-game:locale';
+
+const DICTIONARIES: Record<Locale, Record<MessageKey, string>> = { en, ru, kk };
+
+function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((locale) => locale.id === value);
+}
+
+/** A saved choice wins; otherwise the first browser language we have a dictionary for. */
+function detectLocale(): Locale {
+  const stored = window.localStorage.getItem(LOCALE_KEY);
+  if (isLocale(stored)) return stored;
+  const browser = navigator.languages.map((language) => language.slice(0, 2).toLowerCase()).find(isLocale);
+  return browser ?? 'en';
+}
+
+interface LocaleStore {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+}
+
+const useLocaleStore = create<LocaleStore>((set) => ({
+  locale: detectLocale(),
+  setLocale: (locale) => {
+    window.localStorage.setItem(LOCALE_KEY, locale);
+    set({ locale });
+  }
+}));
+
+useLocaleStore.subscribe(({ locale }) => {
+  document.documentElement.lang = locale;
+});
+document.documentElement.lang = useLocaleStore.getState().locale;
+
+export type TranslateParams = Record<string, string | number>;
+
+export function translate(locale: Locale, key: MessageKey, params?: TranslateParams): string {
+  const template = DICTIONARIES[locale][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/** For code outside components, e.g. socket callbacks. */
+export function currentLocale(): Locale {
+  return useLocaleStore.getState().locale;
+}
+
+export function useI18n() {
+  const locale = useLocaleStore((store) => store.locale);
+  const setLocale = useLocaleStore((store) => store.setLocale);
+  const t = useCallback((key: MessageKey, params?: TranslateParams) => translate(locale, key, params), [locale]);
+  // Catalog themes without a translation keep the label the server sent.
+  const themeLabel = useCallback(
+    (theme: Pick<ThemeInfo, 'id' | 'label'>) => {
+      const key = `theme.${theme.id}`;
+      return key in en ? translate(locale, key as MessageKey) : theme.label;
+    },
+    [locale]
+  );
+  return { locale, setLocale, t, themeLabel };
+}
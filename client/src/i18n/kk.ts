@@ -0,0 +1,274 @@
+import type { MessageKey } from './en';
+
+export const kk: Record<MessageKey, string> = {
+  'app.title': 'Meme Showdown',
+  'app.tagline': 'Достарыңызбен бірнеше секундта қызықты мем-шайқас ұйымдастырыңыз.',
+  'locale.label': 'Тіл',
+
+  'profile.displayName': 'Есім',
+  'profile.avatar': 'Эмодзи-аватар',
+  'profile.randomize': 'Кездейсоқ',
+
+  'settings.rounds': 'Раундтар',
+  'settings.maxPlayers': 'Ойыншылар саны (макс.)',
+  'settings.theme': 'Тақырып',
+  'settings.memeDeck': 'Мемдер жиынтығы',
+  'settings.prompts': 'Жағдаяттар',
+  'settings.promptLanguage': 'Жағдаяттар тілі',
+  'settings.password': 'Құпиясөз (міндетті емес)',
+  'settings.passwordHint': 'Жаңа ойыншыларға кіру үшін керек болады.',
+  'settings.inviteOnly': 'Тек шақыру арқылы: код жұмыс істемейді, тек сілтеме',
+  'settings.pace': 'Қарқын',
+  'settings.scoring': 'Ұпай есептеу',
+  'settings.votingMode': 'Дауыс беру',
+  'settings.audience': 'Көрермендер дауысы',
+  'settings.gameMode': 'Ойын режимі',
+
+  'pace.blitz': 'Блиц (20с / 25с)',
+  'pace.standard': 'Қалыпты (45с / 60с)',
+  'pace.chill': 'Баяу (90с / 120с)',
+  'pace.custom': 'Өз таймерлерім',
+  'pace.untimed': 'Таймерсіз',
+  'pace.untimedHint': 'Сағат жоқ: кезең бәрі жүріс жасағанда немесе жүргізуші ауыстырғанда аяқталады.',
+  'pace.seconds.selection': 'Таңдау (секунд)',
+  'pace.seconds.voting': 'Дауыс беру (секунд)',
+  'pace.seconds.results': 'Нәтижелер (секунд)',
+
+  'theme.fun': 'Көңілді',
+  'theme.university': 'Университет',
+  'theme.18+': '18+',
+  'theme.office': 'Кеңсе',
+  'theme.gaming': 'Ойындар',
+
+  'landing.create.title': 'Лобби құру',
+  'landing.create.subtitle': 'Раундтарды баптап, тақырып таңдаңыз да, шақыру сілтемесімен бөлісіңіз.',
+  'landing.create.submit': 'Лобби құру',
+  'landing.create.submitting': 'Құрылуда…',
+  'landing.create.failed': 'Лобби құру мүмкін болмады',
+  'landing.join.title': 'Код арқылы кіру',
+  'landing.join.subtitle': 'Хост жіберген қысқа кодты енгізіңіз немесе лобби ID-ін қойыңыз.',
+  'landing.join.placeholder': 'Код, мысалы K7QXM',
+  'landing.join.submit': 'Лоббиге кіру',
+  'landing.browse.title': 'Ашық лоббилер',
+  'landing.browse.subtitle': 'Ойыншы іздеп жатқан жалпыға ашық ойындар. Тізім өздігінен жаңарады.',
+  'landing.browse.loading': 'Лобби іздеудеміз…',
+  'landing.browse.empty': 'Қазір ашық лобби жоқ. Өзіңіз құрыңыз немесе жылдам ойынды байқап көріңіз.',
+  'landing.browse.host': 'Хост: {name}',
+  'landing.browse.players': 'Ойыншылар: {players}/{maxPlayers}',
+  'landing.browse.join': 'Кіру',
+  'landing.quickMatch': 'Жылдам ойын',
+  'landing.quickMatch.searching': 'Ойын іздеудеміз…',
+  'landing.quickMatch.failed': 'Ойын табылмады',
+  'landing.how.title': 'Қалай ойналады',
+  'landing.how.step1': 'Лобби құрып, шақыру сілтемесін көшіріңіз.',
+  'landing.how.step2': 'Әркім жағдаятқа сай мем таңдайды.',
+  'landing.how.step3': 'Ең күлкілі мемдерді саралап, ұпай жинап, жеңімпазды анықтаңыз!',
+
+  'lobby.notFound': 'Лобби табылмады.',
+  'lobby.loading': 'Лобби жүктелуде…',
+  'lobby.join.title': 'Лоббиге кіру',
+  'lobby.join.asPlayer': 'Ойыншы болып кіру',
+  'lobby.join.joining': 'Қосылуда…',
+  'lobby.join.spectate': 'Көрермен болу',
+  'lobby.join.failed': 'Лоббиге кіру мүмкін болмады',
+  'lobby.title': 'Лобби #{lobbyId}',
+  'lobby.summary': 'Тақырып: {theme} · Раундтар: {rounds}',
+  'lobby.customDeck': 'Өз мемдер жиынтығы',
+  'lobby.customPrompts': 'Өз жағдаяттары',
+  'lobby.copyInvite': 'Шақыруды көшіру',
+  'lobby.start': 'Ойынды бастау',
+  'lobby.starting': 'Басталуда…',
+  'lobby.exit': 'Шығу',
+  'lobby.currentPhase': 'Ағымдағы кезең',
+  'lobby.timeRemaining': 'Қалған уақыт',
+  'lobby.seconds': '{seconds} с',
+  'lobby.paused': 'Үзіліс',
+  'lobby.pause': 'Кідірту',
+  'lobby.resume': 'Жалғастыру',
+  'lobby.extend': '+{seconds} с',
+  'lobby.skip': 'Келесі кезеңге өту',
+  'lobby.endGame': 'Ойынды аяқтау',
+  'lobby.endGameConfirm': 'Ойынды қазір аяқтайсыз ба? Қазіргі ұпайлар қорытынды болады.',
+  'lobby.hostControls': 'Хост баптаулары',
+  'lobby.players': 'Ойыншылар',
+  'lobby.lock': 'Лоббиді жабу',
+  'lobby.unlock': 'Лоббиді ашу',
+  'lobby.locked': 'Жабық',
+  'lobby.code': 'Код: {code}',
+  'lobby.inviteOnly': 'Тек шақыру арқылы',
+  'lobby.join.password': 'Лобби құпиясөзі',
+
+  'phase.lobby': 'Лобби',
+  'phase.selection': 'Мем таңдау',
+  'phase.voting': 'Дауыс беру',
+  'phase.roundResults': 'Раунд нәтижесі',
+  'phase.finalResults': 'Ойын нәтижесі',
+
+  'player.host': 'Хост',
+  'player.spectator': 'Көрермен',
+  'player.player': 'Ойыншы',
+  'player.online': 'Желіде',
+  'player.offline': 'Желіде емес',
+  'player.points': '{points} ұпай',
+  'player.kick': 'Шығару',
+  'player.ban': 'Тыйым салу',
+  'player.banConfirm': '{name} ойыншысына тыйым салынсын ба? Ол бұл лоббиге қайта кіре алмайды.',
+  'player.makeHost': 'Хост ету',
+  'player.makeSpectator': 'Көрермен ету',
+  'player.makePlayer': 'Ойыншы ету',
+
+  'selection.title': 'Ең лайықты мемді таңдаңыз',
+  'selection.tapToSubmit': 'Осы мемді жіберу үшін басыңыз',
+  'selection.locked': 'Мем таңдалды! Басқа ойыншыларды күтудеміз…',
+  'selection.cardAlt': 'Мем картасы',
+
+  'voting.title': 'Ең күлкілі мемдерді саралаңыз',
+  'voting.hint': 'Көрсеткілермен мемдерді ең күлкіліден бастап реттеңіз.',
+  'voting.up': '▲ Жоғары',
+  'voting.down': '▼ Төмен',
+  'voting.rank': '{rank}-орын',
+  'voting.submit': 'Рейтингті жіберу',
+  'voting.submitting': 'Жіберілуде…',
+  'voting.update': 'Рейтингті жаңарту',
+  'voting.approvalTitle': 'Ұнаған мемдердің бәрін белгілеңіз',
+  'voting.approvalHint': 'Күлдірген мемдерді басыңыз. Қалағаныңызша таңдауға болады; әр таңдау — бір ұпай.',
+  'voting.approve': 'Белгілеу үшін басыңыз',
+  'voting.approved': 'Ұнады ✓',
+  'voting.favoriteTitle': 'Сүйікті меміңізді таңдаңыз',
+  'voting.favoriteHint': 'Сүйікті меміңізді басыңыз. Қаласаңыз, екінші орынды қосу үшін тағы бір мемді басыңыз.',
+  'voting.pick': 'Таңдау үшін басыңыз',
+  'voting.favorite': '★ Сүйікті',
+  'voting.runnerUp': 'Екінші орын',
+  'voting.submitPicks': 'Таңдауды жіберу',
+  'voting.updatePicks': 'Таңдауды жаңарту',
+  'voting.submissionAlt': 'Жіберілген мем',
+
+  'scoring.borda': 'Классикалық рейтинг',
+  'scoring.plurality': 'Бір дауыс',
+  'scoring.approval': 'Мақұлдау',
+  'scoring.top3': 'Салмақты үздік үштік',
+  'scoring.unanimousBonus': 'Бірауыздылық бонусы бар рейтинг',
+  'scoring.hint.borda': 'Ойыншылар барлық мемді реттейді. Соңғы орын 1 ұпай береді, жоғарыдағы әр орын бір ұпайға көп.',
+  'scoring.hint.plurality': 'Ойыншылар реттейді, бірақ әркімнің бірінші таңдауы ғана 1 ұпай алады.',
+  'scoring.hint.approval': 'Ойыншылар ұнаған мемдердің бәрін белгілейді. Әр белгі — 1 ұпай.',
+  'scoring.hint.top3': 'Ойыншылар реттейді; бірінші, екінші және үшінші таңдау 3, 2 және 1 ұпай береді.',
+  'scoring.hint.unanimousBonus': 'Классикалық рейтинг және бәрі бір мемді ең үздік деп таңдаса, қосымша бірінші орын.',
+  'scoring.breakdown.placements': 'Орындар: {placements}',
+  'scoring.breakdown.votes': 'Бірінші орынға дауыстар: {count}',
+  'scoring.breakdown.approvals': 'Белгілер: {count}',
+  'scoring.breakdown.top3': '1-/2-/3-орындар: {placements}',
+  'scoring.breakdown.bonus': 'Бірауыздылық бонусы +{points}',
+
+  'votingMode.ranking': 'Барлық мемді реттеу',
+  'votingMode.favorite': 'Сүйікті (қаласаңыз, екінші орынмен)',
+  'votingMode.approvalHint': 'Мақұлдау арқылы есептегенде ойыншылар әрқашан ұнаған мемдерді белгілейді.',
+
+  'audience.off': 'Өшірулі: көрермендер тек қарайды',
+  'audience.award': 'Көрермендер таңдауы сыйлығы',
+  'audience.blend': 'Ойыншылар ұпайына қосу',
+  'audience.weight': 'Көрермендер салмағы (%)',
+  'audience.awardNotice': 'Сіз көрермен ретінде дауыс бересіз. Таңдауыңыз көрермендер сүйіктісін анықтайды, ұпайларды өзгертпейді.',
+  'audience.blendNotice': 'Сіз көрермен ретінде дауыс бересіз. Көрермендер бірге ойыншылар дауысының {weight}% салмағына тең.',
+  'audience.ballots': 'Көрермендер бюллетені: {count}',
+  'audience.roundPoints': 'Көрермендер: {points} ұпай',
+  'audience.roundShare': 'Көрермендер: {points} ұпай (+{share} қосылды)',
+  'audience.favorite': '👏 Көрермендер сүйіктісі',
+  'audience.finalTally': '👏 Көрермендер сүйіктісі: {favorites} · көрермен ұпайы: {points}',
+
+  'gameMode.classic': 'Классика: бәрі ойнайды және дауыс береді',
+  'gameMode.judge': 'Төреші: жеңімпазды кезекпен төреші таңдайды',
+  'gameMode.hint.classic': 'Әр ойыншы мем таңдап, басқаларына дауыс береді.',
+  'gameMode.hint.judge': 'Әр раундта бір ойыншы ойнаудың орнына төрелік етіп, жеңімпазды өзі таңдайды. Үш ойыншы керек.',
+  'gameMode.scoringHint': 'Төреші режимінде жеңген мем 1 ұпай алады.',
+  'judge.banner': 'Раунд төрешісі: {avatar} {name}',
+  'judge.you': 'Бұл раундта төреші — сіз.',
+  'judge.selectionWait': 'Бұл раундта сіз төрешісіз. Басқалар мем таңдағанша күте тұрыңыз.',
+  'judge.votingWait': '{name} жеңімпазды таңдауын күтудеміз.',
+  'judge.votingTitle': 'Жеңімпазды таңдаңыз',
+  'judge.votingHint': 'Жағдайға ең жақсы келетін мемді басыңыз.',
+  'judge.submit': 'Жеңімпазды жариялау',
+  'judge.update': 'Жеңімпазды ауыстыру',
+  'judge.winner': '👑 Жеңімпаз',
+  'judge.picked': '👑 Төрешінің таңдауы',
+  'judge.notPicked': 'Төреші басқа мемді таңдады',
+  'judge.archived': 'Төреші: {name}',
+
+  'results.roundTitle': 'Раунд кестесі',
+  'results.finalTitle': 'Қорытынды кесте',
+  'results.moment': '{round}-раунд · {situation}',
+  'results.momentPoints': '{points} ұпай',
+  'results.winningAlt': 'Жеңімпаз мем',
+
+  'series.title': 'Серия · ойындар: {games}',
+  'series.record': 'жеңіс: {wins} · ойын: {games} · {points} ұпай',
+  'series.history': 'Өткен ойындар',
+  'series.game': '{number}-ойын · {theme}',
+  'series.rematch': 'Реванш',
+  'series.rematchNextTheme': 'Келесі тақырыппен реванш',
+  'series.backToLobby': 'Баптауларға оралу',
+
+  'archive.loading': 'Ойын жүктелуде…',
+  'archive.notFound': 'Ойын табылмады.',
+  'archive.home': 'Басты бетке',
+  'archive.backToLobby': 'Лоббиге оралу',
+  'archive.playedOn': 'Аяқталды: {date}',
+  'archive.roundsPlayed': 'Ойналған раунд: {rounds} / {total}',
+  'archive.round': '{round}-раунд / {total}',
+  'archive.previousRound': 'Алдыңғы раунд',
+  'archive.nextRound': 'Келесі раунд',
+  'archive.votes': 'Бюллетеньдер',
+  'archive.noRounds': 'Ойын бірінші раунд есептелмей тұрып аяқталды.',
+  'archive.unknownPlayer': 'Белгісіз ойыншы',
+  'account.create': 'Статистикамды сақтау',
+  'account.view': 'Менің профилім мен статистикам',
+  'account.failed': 'Профиль жасау мүмкін болмады',
+  'account.notFound': 'Профиль табылмады',
+  'account.since': '{date} бастап ойнайды',
+  'account.gamesPlayed': 'Ойналған ойындар',
+  'account.wins': 'Жеңістер',
+  'account.roundsPlayed': 'Ойналған раундтар',
+  'account.averageRank': 'Раундтағы орташа орын',
+  'account.firstPlaceVotes': 'Бірінші орынға дауыстар',
+  'account.favoriteMemes': 'Ең көп ұпай жинаған мемдер',
+  'account.noFavorites': 'Ұпай жинаған мемдер әлі жоқ — жинақты бастау үшін ойынды аяқтаңыз.',
+  'account.deviceHint': 'Профиль тек осы браузерге байланған.',
+  'account.forget': 'Осы құрылғыдан ажырату',
+  'leaderboards.link': 'Рейтингтер',
+  'leaderboards.title': 'Рейтингтер',
+  'leaderboards.subtitle': 'Барлық лоббидегі профилі бар ойыншылар.',
+  'leaderboards.failed': 'Рейтингтерді жүктеу мүмкін болмады',
+  'leaderboards.board.rating': 'Рейтинг',
+  'leaderboards.board.weekly': 'Осы апта',
+  'leaderboards.board.monthly': 'Осы ай',
+  'leaderboards.board.allTime': 'Барлық уақыт',
+  'leaderboards.sort.points': 'Ұпай бойынша',
+  'leaderboards.sort.wins': 'Жеңіс бойынша',
+  'leaderboards.period': '{period} маусымы',
+  'leaderboards.wins': 'Жеңіс: {wins}',
+  'leaderboards.gamesPlayed': 'Ойын: {games}',
+  'leaderboards.gamesRated': 'Рейтингтегі ойын: {games}',
+  'leaderboards.empty': 'Әзірге ешкім жоқ. Кестеге шығу үшін профильмен ойынды аяқтаңыз.',
+
+  'memePack.default': 'Әдепкі мемдер',
+  'memePack.custom': 'Өз жиынтығы',
+  'memePack.upload': 'Жиынтық жүктеу',
+  'memePack.uploading': 'Жүктелуде…',
+  'memePack.hint': 'Суреттер салынған ZIP (қосымша manifest.json сипаттамалармен) немесе суреттердің data URL-і бар JSON-манифест.',
+  'memePack.failed': 'Мемдер жиынтығын жүктеу мүмкін болмады',
+
+  'promptPack.builtinOnly': 'Тек кіріктірілген жағдаяттар',
+  'promptPack.custom': 'Өз жағдаяттары',
+  'promptPack.mix.mixed': 'Тақырып жағдаяттарымен араластыру',
+  'promptPack.mix.custom': 'Тек өз жағдаяттары',
+  'promptPack.mix.builtin': 'Тек тақырып жағдаяттары',
+  'promptPack.new': 'Жаңа жағдаяттар',
+  'promptPack.cancel': 'Болдырмау',
+  'promptPack.namePlaceholder': 'Жиынтық атауы',
+  'promptPack.textPlaceholder': 'Әр жолға бір жағдаят',
+  'promptPack.loadFile': 'Файлдан жүктеу',
+  'promptPack.save': 'Жағдаяттарды сақтау',
+  'promptPack.saving': 'Сақталуда…',
+  'promptPack.failed': 'Жағдаяттарды сақтау мүмкін болмады',
+
+  'error.noResponse': 'Сервер жауап бермеді. Қайталап көріңіз.'
+};
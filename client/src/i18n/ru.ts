@@ -0,0 +1,274 @@
+import type { MessageKey } from './en';
+
+export const ru: Record<MessageKey, string> = {
+  'app.title': 'Meme Showdown',
+  'app.tagline': 'Устраивайте безумные мем-баттлы с друзьями за секунды.',
+  'locale.label': 'Язык',
+
+  'profile.displayName': 'Имя',
+  'profile.avatar': 'Эмодзи-аватар',
+  'profile.randomize': 'Случайно',
+
+  'settings.rounds': 'Раунды',
+  'settings.maxPlayers': 'Макс. игроков',
+  'settings.theme': 'Тема',
+  'settings.memeDeck': 'Колода мемов',
+  'settings.prompts': 'Ситуации',
+  'settings.promptLanguage': 'Язык ситуаций',
+  'settings.password': 'Пароль (необязательно)',
+  'settings.passwordHint': 'Новым игрокам он понадобится для входа.',
+  'settings.inviteOnly': 'Только по приглашению: код не сработает, только ссылка',
+  'settings.pace': 'Темп',
+  'settings.scoring': 'Подсчёт очков',
+  'settings.votingMode': 'Голосование',
+  'settings.audience': 'Голосование зрителей',
+  'settings.gameMode': 'Режим игры',
+
+  'pace.blitz': 'Блиц (20с / 25с)',
+  'pace.standard': 'Обычный (45с / 60с)',
+  'pace.chill': 'Спокойный (90с / 120с)',
+  'pace.custom': 'Свои таймеры',
+  'pace.untimed': 'Без таймера',
+  'pace.untimedHint': 'Без часов: этап заканчивается, когда все сходили или ведущий переключил его.',
+  'pace.seconds.selection': 'Выбор (секунды)',
+  'pace.seconds.voting': 'Голосование (секунды)',
+  'pace.seconds.results': 'Итоги (секунды)',
+
+  'theme.fun': 'Весёлое',
+  'theme.university': 'Универ',
+  'theme.18+': '18+',
+  'theme.office': 'Офис',
+  'theme.gaming': 'Игры',
+
+  'landing.create.title': 'Создать лобби',
+  'landing.create.subtitle': 'Настройте раунды, выберите тему и поделитесь ссылкой-приглашением.',
+  'landing.create.submit': 'Создать лобби',
+  'landing.create.submitting': 'Создаём…',
+  'landing.create.failed': 'Не удалось создать лобби',
+  'landing.join.title': 'Войти по коду',
+  'landing.join.subtitle': 'Введите короткий код от хоста или вставьте ID лобби.',
+  'landing.join.placeholder': 'Код, например K7QXM',
+  'landing.join.submit': 'Войти в лобби',
+  'landing.browse.title': 'Открытые лобби',
+  'landing.browse.subtitle': 'Публичные игры, которым нужны игроки. Список обновляется сам.',
+  'landing.browse.loading': 'Ищем лобби…',
+  'landing.browse.empty': 'Сейчас открытых лобби нет. Создайте своё или попробуйте быструю игру.',
+  'landing.browse.host': 'Хост: {name}',
+  'landing.browse.players': 'Игроков: {players}/{maxPlayers}',
+  'landing.browse.join': 'Войти',
+  'landing.quickMatch': 'Быстрая игра',
+  'landing.quickMatch.searching': 'Ищем игру…',
+  'landing.quickMatch.failed': 'Не удалось найти игру',
+  'landing.how.title': 'Как играть',
+  'landing.how.step1': 'Создайте лобби и скопируйте ссылку-приглашение.',
+  'landing.how.step2': 'Каждый выбирает мем, подходящий к ситуации.',
+  'landing.how.step3': 'Ранжируйте самые смешные мемы, набирайте очки и выберите победителя!',
+
+  'lobby.notFound': 'Лобби не найдено.',
+  'lobby.loading': 'Загружаем лобби…',
+  'lobby.join.title': 'Войти в лобби',
+  'lobby.join.asPlayer': 'Играть',
+  'lobby.join.joining': 'Подключаемся…',
+  'lobby.join.spectate': 'Смотреть',
+  'lobby.join.failed': 'Не удалось войти в лобби',
+  'lobby.title': 'Лобби #{lobbyId}',
+  'lobby.summary': 'Тема: {theme} · Раунды: {rounds}',
+  'lobby.customDeck': 'Своя колода мемов',
+  'lobby.customPrompts': 'Свои ситуации',
+  'lobby.copyInvite': 'Скопировать приглашение',
+  'lobby.start': 'Начать игру',
+  'lobby.starting': 'Запускаем…',
+  'lobby.exit': 'Выйти',
+  'lobby.currentPhase': 'Текущий этап',
+  'lobby.timeRemaining': 'Осталось времени',
+  'lobby.seconds': '{seconds} с',
+  'lobby.paused': 'Пауза',
+  'lobby.pause': 'Пауза',
+  'lobby.resume': 'Продолжить',
+  'lobby.extend': '+{seconds} с',
+  'lobby.skip': 'К следующему этапу',
+  'lobby.endGame': 'Завершить игру',
+  'lobby.endGameConfirm': 'Завершить игру сейчас? Текущие очки станут итоговыми.',
+  'lobby.hostControls': 'Настройки хоста',
+  'lobby.players': 'Игроки',
+  'lobby.lock': 'Закрыть лобби',
+  'lobby.unlock': 'Открыть лобби',
+  'lobby.locked': 'Закрыто',
+  'lobby.code': 'Код: {code}',
+  'lobby.inviteOnly': 'Только по приглашению',
+  'lobby.join.password': 'Пароль лобби',
+
+  'phase.lobby': 'Лобби',
+  'phase.selection': 'Выбор мема',
+  'phase.voting': 'Голосование',
+  'phase.roundResults': 'Итоги раунда',
+  'phase.finalResults': 'Итоги игры',
+
+  'player.host': 'Хост',
+  'player.spectator': 'Зритель',
+  'player.player': 'Игрок',
+  'player.online': 'В сети',
+  'player.offline': 'Не в сети',
+  'player.points': '{points} очк.',
+  'player.kick': 'Выгнать',
+  'player.ban': 'Забанить',
+  'player.banConfirm': 'Забанить {name}? Этот игрок больше не сможет войти в лобби.',
+  'player.makeHost': 'Сделать хостом',
+  'player.makeSpectator': 'В зрители',
+  'player.makePlayer': 'В игроки',
+
+  'selection.title': 'Выберите идеальный мем',
+  'selection.tapToSubmit': 'Нажмите, чтобы отправить этот мем',
+  'selection.locked': 'Мем выбран! Ждём остальных игроков…',
+  'selection.cardAlt': 'Карточка мема',
+
+  'voting.title': 'Ранжируйте самые смешные мемы',
+  'voting.hint': 'Стрелками расставьте мемы от самого смешного к наименее смешному.',
+  'voting.up': '▲ Выше',
+  'voting.down': '▼ Ниже',
+  'voting.rank': 'Место {rank}',
+  'voting.submit': 'Отправить рейтинг',
+  'voting.submitting': 'Отправляем…',
+  'voting.update': 'Обновить рейтинг',
+  'voting.approvalTitle': 'Отметьте все мемы, которые понравились',
+  'voting.approvalHint': 'Нажмите на мемы, которые вас рассмешили. Можно выбрать сколько угодно; каждый выбор — очко.',
+  'voting.approve': 'Нажмите, чтобы отметить',
+  'voting.approved': 'Нравится ✓',
+  'voting.favoriteTitle': 'Выберите любимый мем',
+  'voting.favoriteHint': 'Нажмите на любимый мем. При желании нажмите на второй, чтобы добавить серебро.',
+  'voting.pick': 'Нажмите, чтобы выбрать',
+  'voting.favorite': '★ Любимый',
+  'voting.runnerUp': 'Второе место',
+  'voting.submitPicks': 'Отправить выбор',
+  'voting.updatePicks': 'Обновить выбор',
+  'voting.submissionAlt': 'Отправленный мем',
+
+  'scoring.borda': 'Классический рейтинг',
+  'scoring.plurality': 'Один голос',
+  'scoring.approval': 'Одобрение',
+  'scoring.top3': 'Взвешенная тройка',
+  'scoring.unanimousBonus': 'Рейтинг с бонусом за единогласие',
+  'scoring.hint.borda': 'Игроки ранжируют все мемы. Последнее место даёт 1 очко, каждое место выше — на одно больше.',
+  'scoring.hint.plurality': 'Игроки ранжируют, но очко получает только первый выбор каждого.',
+  'scoring.hint.approval': 'Игроки отмечают все понравившиеся мемы. Каждая отметка — 1 очко.',
+  'scoring.hint.top3': 'Игроки ранжируют; первый, второй и третий выбор дают 3, 2 и 1 очко.',
+  'scoring.hint.unanimousBonus': 'Классический рейтинг и ещё одно первое место, если все выбрали один и тот же лучший мем.',
+  'scoring.breakdown.placements': 'Места: {placements}',
+  'scoring.breakdown.votes': 'Голосов за первое место: {count}',
+  'scoring.breakdown.approvals': 'Отметок: {count}',
+  'scoring.breakdown.top3': '1-е / 2-е / 3-е места: {placements}',
+  'scoring.breakdown.bonus': 'Бонус за единогласие +{points}',
+
+  'votingMode.ranking': 'Ранжировать все мемы',
+  'votingMode.favorite': 'Любимый (и второе место по желанию)',
+  'votingMode.approvalHint': 'При подсчёте одобрением игроки всегда отмечают понравившиеся мемы.',
+
+  'audience.off': 'Выкл.: зрители только смотрят',
+  'audience.award': 'Приз зрительских симпатий',
+  'audience.blend': 'Добавлять к очкам игроков',
+  'audience.weight': 'Вес зрителей (%)',
+  'audience.awardNotice': 'Вы голосуете как зритель. Ваш выбор определяет любимца публики и не меняет очки.',
+  'audience.blendNotice': 'Вы голосуете как зритель. Вместе зрители весят {weight}% от голосов игроков.',
+  'audience.ballots': 'Бюллетеней зрителей: {count}',
+  'audience.roundPoints': 'Зрители: {points} очк.',
+  'audience.roundShare': 'Зрители: {points} очк. (+{share} к счёту)',
+  'audience.favorite': '👏 Любимец публики',
+  'audience.finalTally': '👏 Любимец публики: {favorites} · очки зрителей: {points}',
+
+  'gameMode.classic': 'Классика: все играют и голосуют',
+  'gameMode.judge': 'Судья: победителя выбирает судья по очереди',
+  'gameMode.hint.classic': 'Каждый игрок выбирает мем и голосует за чужие.',
+  'gameMode.hint.judge': 'В каждом раунде один игрок судит вместо игры и сам выбирает победителя. Нужно три игрока.',
+  'gameMode.scoringHint': 'В режиме судьи мем-победитель получает 1 очко.',
+  'judge.banner': 'Судья раунда: {avatar} {name}',
+  'judge.you': 'В этом раунде судья — вы.',
+  'judge.selectionWait': 'В этом раунде вы судья. Подождите, пока остальные выберут мемы.',
+  'judge.votingWait': 'Ждём, пока {name} выберет победителя.',
+  'judge.votingTitle': 'Выберите победителя',
+  'judge.votingHint': 'Нажмите на мем, который лучше всего подходит к ситуации.',
+  'judge.submit': 'Объявить победителя',
+  'judge.update': 'Сменить победителя',
+  'judge.winner': '👑 Победитель',
+  'judge.picked': '👑 Выбор судьи',
+  'judge.notPicked': 'Судья выбрал другой мем',
+  'judge.archived': 'Судья: {name}',
+
+  'results.roundTitle': 'Таблица раунда',
+  'results.finalTitle': 'Итоговая таблица',
+  'results.moment': 'Раунд {round} · {situation}',
+  'results.momentPoints': 'Очков: {points}',
+  'results.winningAlt': 'Мем-победитель',
+
+  'series.title': 'Серия · игр: {games}',
+  'series.record': 'побед: {wins} · игр: {games} · {points} очк.',
+  'series.history': 'Прошлые игры',
+  'series.game': 'Игра {number} · {theme}',
+  'series.rematch': 'Реванш',
+  'series.rematchNextTheme': 'Реванш со следующей темой',
+  'series.backToLobby': 'Вернуться к настройкам',
+
+  'archive.loading': 'Загружаем игру…',
+  'archive.notFound': 'Игра не найдена.',
+  'archive.home': 'На главную',
+  'archive.backToLobby': 'Вернуться в лобби',
+  'archive.playedOn': 'Завершена {date}',
+  'archive.roundsPlayed': 'Сыграно раундов: {rounds} из {total}',
+  'archive.round': 'Раунд {round} из {total}',
+  'archive.previousRound': 'Предыдущий раунд',
+  'archive.nextRound': 'Следующий раунд',
+  'archive.votes': 'Бюллетени',
+  'archive.noRounds': 'Игра закончилась до подсчёта первого раунда.',
+  'archive.unknownPlayer': 'Неизвестный игрок',
+  'account.create': 'Сохранять мою статистику',
+  'account.view': 'Мой профиль и статистика',
+  'account.failed': 'Не удалось создать профиль',
+  'account.notFound': 'Профиль не найден',
+  'account.since': 'Играет с {date}',
+  'account.gamesPlayed': 'Сыграно игр',
+  'account.wins': 'Победы',
+  'account.roundsPlayed': 'Сыграно раундов',
+  'account.averageRank': 'Среднее место в раунде',
+  'account.firstPlaceVotes': 'Голоса за первое место',
+  'account.favoriteMemes': 'Самые удачные мемы',
+  'account.noFavorites': 'Пока нет набравших очки мемов — доиграйте игру, чтобы начать коллекцию.',
+  'account.deviceHint': 'Профиль привязан только к этому браузеру.',
+  'account.forget': 'Отвязать от этого устройства',
+  'leaderboards.link': 'Рейтинги',
+  'leaderboards.title': 'Рейтинги',
+  'leaderboards.subtitle': 'Игроки с профилем во всех лобби.',
+  'leaderboards.failed': 'Не удалось загрузить рейтинги',
+  'leaderboards.board.rating': 'Рейтинг',
+  'leaderboards.board.weekly': 'Эта неделя',
+  'leaderboards.board.monthly': 'Этот месяц',
+  'leaderboards.board.allTime': 'За всё время',
+  'leaderboards.sort.points': 'По очкам',
+  'leaderboards.sort.wins': 'По победам',
+  'leaderboards.period': 'Сезон {period}',
+  'leaderboards.wins': 'Побед: {wins}',
+  'leaderboards.gamesPlayed': 'Игр: {games}',
+  'leaderboards.gamesRated': 'Игр в рейтинге: {games}',
+  'leaderboards.empty': 'Здесь пока никого. Доиграйте игру с профилем, чтобы попасть в таблицу.',
+
+  'memePack.default': 'Стандартные мемы',
+  'memePack.custom': 'Своя колода',
+  'memePack.upload': 'Загрузить колоду',
+  'memePack.uploading': 'Загружаем…',
+  'memePack.hint': 'ZIP с картинками (можно добавить manifest.json с подписями) или JSON-манифест с data URL картинок.',
+  'memePack.failed': 'Не удалось загрузить колоду мемов',
+
+  'promptPack.builtinOnly': 'Только встроенные ситуации',
+  'promptPack.custom': 'Свои ситуации',
+  'promptPack.mix.mixed': 'Смешать с ситуациями темы',
+  'promptPack.mix.custom': 'Только свои ситуации',
+  'promptPack.mix.builtin': 'Только ситуации темы',
+  'promptPack.new': 'Новые ситуации',
+  'promptPack.cancel': 'Отмена',
+  'promptPack.namePlaceholder': 'Название набора',
+  'promptPack.textPlaceholder': 'Одна ситуация в строке',
+  'promptPack.loadFile': 'Загрузить файл',
+  'promptPack.save': 'Сохранить ситуации',
+  'promptPack.saving': 'Сохраняем…',
+  'promptPack.failed': 'Не удалось сохранить ситуации',
+
+  'error.noResponse': 'Сервер не ответил. Попробуйте ещё раз.'
+};
@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import type { ArchivedGame, ArchivedGameSummary, ArchivedRound } from '@shared/types';
+import { getGame, listLobbyGames, resolveAssetUrl } from '../api';
+import LocaleSwitcher from '../components/LocaleSwitcher';
+import ScoreBreakdown from '../components/ScoreBreakdown';
+import { useThemes } from '../hooks/useThemes';
+import { useI18n } from '../i18n';
+
+/** A finished game from the archive, browsed one round at a time. */
+export default function GamePage() {
+  const { gameId } = useParams();
+  const { locale, t, themeLabel } = useI18n();
+  const themes = useThemes();
+  const [game, setGame] = useState<ArchivedGame | null>(null);
+  const [otherGames, setOtherGames] = useState<ArchivedGameSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [roundIndex, setRoundIndex] = useState(0);
+
+  useEffect(() => {
+    if (!gameId) return;
+    let cancelled = false;
+    setGame(null);
+    setError(null);
+    setRoundIndex(0);
+    getGame(gameId)
+      .then((result) => {
+        if (cancelled) return;
+        setGame(result);
+        return listLobbyGames(result.lobbyId).then((games) => {
+          if (!cancelled) setOtherGames(games);
+        });
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t('archive.notFound'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, t]);
+
+  if (!game) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-slate-950 text-white">
+        <p>{error ?? t('archive.loading')}</p>
+        {error && (
+          <Link to="/" className="text-sm text-brand hover:underline">
+            {t('archive.home')}
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  const nameOf = (playerId: string) => {
+    const player = game.roster.find((item) => item.playerId === playerId);
+    return player ? `${player.avatar} ${player.name}` : t('archive.unknownPlayer');
+  };
+  const round: ArchivedRound | undefined = game.rounds[roundIndex];
+  const theme = themeLabel(themes.find((item) => item.id === game.settings.theme) ?? { id: game.settings.theme, label: game.settings.theme });
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <header className="border-b border-slate-900 bg-slate-950/80 backdrop-blur">
+        <div className="mx-auto flex max-w-6xl flex-col gap-4 px-6 py-6 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold">{t('series.game', { number: game.gameNumber, theme })}</h1>
+            <p className="text-sm text-slate-400">
+              {t('archive.playedOn', { date: new Date(game.finishedAt).toLocaleString(locale) })} ·{' '}
+              {t('archive.roundsPlayed', { rounds: game.rounds.length, total: game.settings.rounds })}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <LocaleSwitcher />
+            <Link
+              to={`/lobby/${game.lobbyId}`}
+              className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white"
+            >
+              {t('archive.backToLobby')}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto flex max-w-6xl flex-col gap-8 px-6 py-8">
+        <section className="rounded-2xl border border-slate-800 bg-slate-900/70 p-6">
+          <h2 className="text-xl font-semibold text-white">{t('results.finalTitle')}</h2>
+          <ol className="mt-4 space-y-2">
+            {game.standings.map((entry, index) => (
+              <li key={entry.playerId} className="flex items-center justify-between text-slate-200">
+                <span>
+                  {index + 1}. {nameOf(entry.playerId)}
+                </span>
+                <span className="font-semibold text-brand">{t('player.points', { points: entry.score })}</span>
+              </li>
+            ))}
+          </ol>
+        </section>
+
+        {round ? (
+          <section className="space-y-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <p className="text-sm uppercase tracking-widest text-slate-500">
+                  {t('archive.round', { round: round.roundNumber, total: game.settings.rounds })}
+                </p>
+                <p className="mt-1 text-lg text-slate-200">{round.situation.text}</p>
+                {round.judgeId && <p className="mt-1 text-sm text-slate-400">{t('judge.archived', { name: nameOf(round.judgeId) })}</p>}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setRoundIndex((index) => index - 1)}
+                  disabled={roundIndex === 0}
+                  className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white disabled:opacity-40"
+                >
+                  {t('archive.previousRound')}
+                </button>
+                <button
+                  onClick={() => setRoundIndex((index) => index + 1)}
+                  disabled={roundIndex >= game.rounds.length - 1}
+                  className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white disabled:opacity-40"
+                >
+                  {t('archive.nextRound')}
+                </button>
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              {round.results.map((entry) => {
+                const submission = round.submissions.find((item) => item.playerId === entry.playerId);
+                return (
+                  <div key={entry.playerId} className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4">
+                    {submission && (
+                      <img
+                        src={resolveAssetUrl(submission.meme.url)}
+                        alt={submission.meme.alt ?? t('voting.submissionAlt')}
+                        className="h-48 w-full rounded-xl object-cover"
+                      />
+                    )}
+                    <div className="mt-3 flex items-center justify-between">
+                      <span className="font-semibold text-white">
+                        {entry.rank}. {nameOf(entry.playerId)}
+                      </span>
+                      <span className="rounded-full bg-brand/20 px-3 py-1 text-sm font-semibold text-brand">+{entry.points}</span>
+                    </div>
+                    <ScoreBreakdown className="mt-2 text-sm text-slate-400" entry={entry} scoring={game.settings.scoring} judged={Boolean(round.judgeId)} />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4">
+              <h3 className="text-lg font-semibold text-white">{t('archive.votes')}</h3>
+              <ul className="mt-3 space-y-2 text-sm text-slate-300">
+                {round.votes.map((vote) => (
+                  <li key={vote.playerId}>
+                    <span className="text-white">{nameOf(vote.playerId)}</span>: {vote.ranking.map(nameOf).join(' › ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </section>
+        ) : (
+          <p className="text-slate-400">{t('archive.noRounds')}</p>
+        )}
+
+        {otherGames.length > 1 && (
+          <section>
+            <h3 className="text-lg font-semibold text-white">{t('series.history')}</h3>
+            <ul className="mt-3 space-y-2 text-sm">
+              {otherGames.map((item) => (
+                <li key={item.gameId}>
+                  {item.gameId === game.gameId ? (
+                    <span className="text-white">{t('series.game', { number: item.gameNumber, theme })}</span>
+                  ) : (
+                    <Link to={`/games/${item.gameId}`} className="text-slate-300 underline decoration-slate-600 hover:text-white">
+                      {t('series.game', {
+                        number: item.gameNumber,
+                        theme: themeLabel(themes.find((entry) => entry.id === item.theme) ?? { id: item.theme, label: item.theme })
+                      })}
+                    </Link>
+                  )}
+                  <span className="text-slate-500"> · {item.winners.map((winner) => `${winner.avatar} ${winner.name}`).join(', ')}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,17 @@
 import { FormEvent, useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { createLobby } from '../api';
+import { Link, useNavigate } from 'react-router-dom';
+import { joinCodeSchema } from '@shared/schemas';
+import type { GamePace, GameTheme, Locale, PhaseDurations, PromptMix } from '@shared/types';
+import { createLobby, quickMatch, resolveJoinCode } from '../api';
+import LocaleSwitcher from '../components/LocaleSwitcher';
+import MemePackPicker from '../components/MemePackPicker';
+import PacePicker from '../components/PacePicker';
+import PromptPackPicker from '../components/PromptPackPicker';
+import { useAccount } from '../hooks/useAccount';
+import { useLobbyBrowser } from '../hooks/useLobbyBrowser';
+import { useThemes } from '../hooks/useThemes';
 import { pickRandomAvatar, pickRandomName } from '../data';
+import { LOCALES, useI18n } from '../i18n';
 
 interface Profile {
   name: string;
@@ -12,13 +22,27 @@ const PROFILE_KEY = 'meme-game:profile';
 
 export default function LandingPage() {
   const navigate = useNavigate();
+  const { locale, t, themeLabel } = useI18n();
   const [profile, setProfile] = useState<Profile>({ name: pickRandomName(), avatar: pickRandomAvatar() });
   const [rounds, setRounds] = useState(7);
-  const [theme, setTheme] = useState<'fun' | 'university' | '18+'>('fun');
+  const themes = useThemes();
+  const [theme, setTheme] = useState<GameTheme>('fun');
   const [maxPlayers, setMaxPlayers] = useState(6);
+  const [promptLocale, setPromptLocale] = useState<Locale>(locale);
+  const [memePackId, setMemePackId] = useState<string | undefined>();
+  const [prompts, setPrompts] = useState<{ promptPackId?: string; promptMix?: PromptMix }>({});
+  const [pacing, setPacing] = useState<{ pace: GamePace; durations?: PhaseDurations }>({ pace: 'standard' });
+  const [password, setPassword] = useState('');
+  const [inviteOnly, setInviteOnly] = useState(false);
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [joinCode, setJoinCode] = useState('');
+  const [joining, setJoining] = useState(false);
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [matching, setMatching] = useState(false);
+  const { lobbies, loading: lobbiesLoading } = useLobbyBrowser();
+  const { account, create: createAccount } = useAccount();
+  const [creatingAccount, setCreatingAccount] = useState(false);
 
   useEffect(() => {
     const stored = window.localStorage.getItem(PROFILE_KEY);
@@ -43,23 +67,82 @@ export default function LandingPage() {
         rounds,
         theme,
         maxPlayers,
+        memePackId,
+        ...prompts,
+        ...pacing,
+        locale: promptLocale,
         name: profile.name,
-        avatar: profile.avatar
+        avatar: profile.avatar,
+        profileToken: account?.profileToken,
+        password: password || undefined,
+        inviteOnly
       });
       window.localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
-      window.localStorage.setItem(`meme-game:lobby:${response.lobbyId}`, response.playerId);
+      window.localStorage.setItem(`meme-game:session:${response.lobbyId}`, response.sessionToken);
       navigate(`/lobby/${response.lobbyId}`);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create lobby');
+      setError(err instanceof Error ? err.message : t('landing.create.failed'));
     } finally {
       setCreating(false);
     }
   };
 
-  const handleJoin = (event: FormEvent) => {
+  const handleJoin = async (event: FormEvent) => {
     event.preventDefault();
-    if (!joinCode.trim()) return;
-    navigate(`/lobby/${joinCode.trim()}`);
+    const input = joinCode.trim();
+    if (!input) return;
+    const code = joinCodeSchema.safeParse(input);
+    if (!code.success) {
+      // Anything that is not a short code is taken as a full lobby id from an invite link.
+      navigate(`/lobby/${input}`);
+      return;
+    }
+    setJoining(true);
+    setJoinError(null);
+    try {
+      navigate(`/lobby/${await resolveJoinCode(code.data)}`);
+    } catch (err) {
+      setJoinError(err instanceof Error ? err.message : t('lobby.join.failed'));
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const handleQuickMatch = async () => {
+    setMatching(true);
+    setJoinError(null);
+    try {
+      const response = await quickMatch({
+        theme,
+        locale: promptLocale,
+        name: profile.name,
+        avatar: profile.avatar,
+        profileToken: account?.profileToken
+      });
+      window.localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+      if (response.sessionToken) {
+        window.localStorage.setItem(`meme-game:session:${response.lobbyId}`, response.sessionToken);
+      }
+      navigate(`/lobby/${response.lobbyId}`);
+    } catch (err) {
+      setJoinError(err instanceof Error ? err.message : t('landing.quickMatch.failed'));
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  const handleCreateAccount = async () => {
+    setCreatingAccount(true);
+    setError(null);
+    try {
+      const created = await createAccount(profile.name, profile.avatar);
+      window.localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+      navigate(`/profile/${created.profileId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('account.failed'));
+    } finally {
+      setCreatingAccount(false);
+    }
   };
 
   const randomizeProfile = () => {
@@ -69,20 +152,22 @@ export default function LandingPage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-950 to-black">
       <div className="mx-auto flex max-w-5xl flex-col gap-8 px-6 py-16">
-        <header className="text-center">
-          <h1 className="text-4xl font-bold text-white sm:text-5xl">Meme Showdown</h1>
-          <p className="mt-3 text-lg text-slate-300">
-            Host outrageous meme battles with friends in seconds.
-          </p>
+        <header className="relative text-center">
+          <LocaleSwitcher className="absolute right-0 top-0" />
+          <h1 className="text-4xl font-bold text-white sm:text-5xl">{t('app.title')}</h1>
+          <p className="mt-3 text-lg text-slate-300">{t('app.tagline')}</p>
+          <Link to="/leaderboards" className="mt-3 inline-block text-sm text-brand hover:underline">
+            {t('leaderboards.link')}
+          </Link>
         </header>
 
         <div className="grid gap-8 lg:grid-cols-2">
           <section className="rounded-3xl border border-slate-800 bg-slate-900/60 p-8 shadow-xl">
-            <h2 className="text-2xl font-semibold text-white">Create a Lobby</h2>
-            <p className="mt-2 text-sm text-slate-300">Configure rounds, pick a theme, and share the invite link.</p>
+            <h2 className="text-2xl font-semibold text-white">{t('landing.create.title')}</h2>
+            <p className="mt-2 text-sm text-slate-300">{t('landing.create.subtitle')}</p>
             <form className="mt-6 space-y-5" onSubmit={handleCreate}>
               <div>
-                <label className="block text-sm font-semibold text-slate-200">Display name</label>
+                <label className="block text-sm font-semibold text-slate-200">{t('profile.displayName')}</label>
                 <div className="mt-2 flex items-center gap-3">
                   <span className="text-3xl" aria-hidden>
                     {profile.avatar}
@@ -99,13 +184,13 @@ export default function LandingPage() {
                     className="rounded-lg border border-slate-700 px-3 py-2 text-sm text-slate-300 transition hover:border-brand hover:text-white"
                     onClick={randomizeProfile}
                   >
-                    Randomize
+                    {t('profile.randomize')}
                   </button>
                 </div>
               </div>
 
               <div>
-                <label className="block text-sm font-semibold text-slate-200">Emoji avatar</label>
+                <label className="block text-sm font-semibold text-slate-200">{t('profile.avatar')}</label>
                 <input
                   className="mt-2 w-20 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-center text-2xl"
                   value={profile.avatar}
@@ -114,9 +199,26 @@ export default function LandingPage() {
                 />
               </div>
 
+              <div className="text-sm">
+                {account ? (
+                  <Link to={`/profile/${account.profileId}`} className="text-brand hover:underline">
+                    {t('account.view')}
+                  </Link>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleCreateAccount}
+                    disabled={creatingAccount}
+                    className="text-slate-300 underline decoration-slate-600 transition hover:text-white disabled:opacity-60"
+                  >
+                    {t('account.create')}
+                  </button>
+                )}
+              </div>
+
               <div className="grid gap-4 sm:grid-cols-2">
                 <label className="flex flex-col text-sm font-semibold text-slate-200">
-                  Rounds
+                  {t('settings.rounds')}
                   <input
                     type="number"
                     min={5}
@@ -128,7 +230,7 @@ export default function LandingPage() {
                 </label>
 
                 <label className="flex flex-col text-sm font-semibold text-slate-200">
-                  Max players
+                  {t('settings.maxPlayers')}
                   <input
                     type="number"
                     min={2}
@@ -141,25 +243,80 @@ export default function LandingPage() {
               </div>
 
               <div>
-                <span className="block text-sm font-semibold text-slate-200">Theme</span>
-                <div className="mt-2 flex gap-3">
-                  {['fun', 'university', '18+'].map((value) => (
+                <span className="block text-sm font-semibold text-slate-200">{t('settings.theme')}</span>
+                <div className="mt-2 flex flex-wrap gap-3">
+                  {themes.map((item) => (
                     <button
-                      key={value}
+                      key={item.id}
                       type="button"
-                      onClick={() => setTheme(value as typeof theme)}
-                      className={`rounded-full border px-4 py-2 text-sm capitalize transition ${
-                        theme === value
+                      onClick={() => setTheme(item.id)}
+                      className={`rounded-full border px-4 py-2 text-sm transition ${
+                        theme === item.id
                           ? 'border-brand bg-brand/20 text-white'
                           : 'border-slate-700 text-slate-300 hover:border-brand'
                       }`}
                     >
-                      {value}
+                      {themeLabel(item)}
                     </button>
                   ))}
                 </div>
               </div>
 
+              <div>
+                <span className="block text-sm font-semibold text-slate-200">{t('settings.memeDeck')}</span>
+                <MemePackPicker className="mt-2" value={memePackId} onChange={setMemePackId} />
+              </div>
+
+              <div>
+                <span className="block text-sm font-semibold text-slate-200">{t('settings.prompts')}</span>
+                <PromptPackPicker className="mt-2" packId={prompts.promptPackId} mix={prompts.promptMix} onChange={setPrompts} />
+              </div>
+
+              <div>
+                <span className="block text-sm font-semibold text-slate-200">{t('settings.pace')}</span>
+                <PacePicker className="mt-2" pace={pacing.pace} durations={pacing.durations} onChange={setPacing} />
+              </div>
+
+              <label className="flex flex-col text-sm font-semibold text-slate-200">
+                {t('settings.promptLanguage')}
+                <select
+                  value={promptLocale}
+                  onChange={(event) => setPromptLocale(event.target.value as Locale)}
+                  className="mt-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
+                >
+                  {LOCALES.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <label className="flex flex-col text-sm font-semibold text-slate-200">
+                  {t('settings.password')}
+                  <input
+                    type="password"
+                    autoComplete="new-password"
+                    maxLength={64}
+                    className="mt-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
+                    value={password}
+                    onChange={(event) => setPassword(event.target.value)}
+                  />
+                  <span className="mt-1 text-xs font-normal text-slate-400">{t('settings.passwordHint')}</span>
+                </label>
+
+                <label className="flex items-start gap-3 text-sm text-slate-300 sm:mt-7">
+                  <input
+                    type="checkbox"
+                    className="mt-1 h-4 w-4 accent-brand"
+                    checked={inviteOnly}
+                    onChange={(event) => setInviteOnly(event.target.checked)}
+                  />
+                  {t('settings.inviteOnly')}
+                </label>
+              </div>
+
               {error && <p className="text-sm text-rose-400">{error}</p>}
 
               <button
@@ -167,36 +324,83 @@ export default function LandingPage() {
                 disabled={creating}
                 className="w-full rounded-xl bg-brand px-4 py-3 text-lg font-semibold text-white shadow-lg transition hover:bg-brand-light disabled:cursor-not-allowed disabled:opacity-70"
               >
-                {creating ? 'Creating…' : 'Create lobby'}
+                {creating ? t('landing.create.submitting') : t('landing.create.submit')}
               </button>
             </form>
           </section>
 
           <section className="rounded-3xl border border-slate-800 bg-slate-900/40 p-8 shadow-xl">
-            <h2 className="text-2xl font-semibold text-white">Join with a code</h2>
-            <p className="mt-2 text-sm text-slate-300">Paste a lobby ID shared by your host to jump right in.</p>
+            <h2 className="text-2xl font-semibold text-white">{t('landing.join.title')}</h2>
+            <p className="mt-2 text-sm text-slate-300">{t('landing.join.subtitle')}</p>
             <form className="mt-6 space-y-4" onSubmit={handleJoin}>
               <input
                 className="w-full rounded-xl border border-slate-700 bg-slate-900 px-4 py-3 text-white focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/40"
-                placeholder="Enter lobby ID"
+                placeholder={t('landing.join.placeholder')}
                 value={joinCode}
                 onChange={(event) => setJoinCode(event.target.value)}
+                autoCapitalize="characters"
                 required
               />
+              {joinError && <p className="text-sm text-rose-400">{joinError}</p>}
               <button
                 type="submit"
-                className="w-full rounded-xl border border-slate-700 px-4 py-3 text-lg font-semibold text-slate-200 transition hover:border-brand hover:text-white"
+                disabled={joining}
+                className="w-full rounded-xl border border-slate-700 px-4 py-3 text-lg font-semibold text-slate-200 transition hover:border-brand hover:text-white disabled:cursor-wait disabled:opacity-70"
               >
-                Join lobby
+                {joining ? t('lobby.join.joining') : t('landing.join.submit')}
               </button>
             </form>
 
+            <div className="mt-10">
+              <div className="flex items-center justify-between gap-3">
+                <h3 className="text-lg font-semibold text-white">{t('landing.browse.title')}</h3>
+                <button
+                  type="button"
+                  onClick={handleQuickMatch}
+                  disabled={matching}
+                  className="rounded-xl bg-brand px-4 py-2 text-sm font-semibold text-white shadow-lg transition hover:bg-brand-light disabled:cursor-wait disabled:opacity-70"
+                >
+                  {matching ? t('landing.quickMatch.searching') : t('landing.quickMatch')}
+                </button>
+              </div>
+              <p className="mt-2 text-sm text-slate-400">{t('landing.browse.subtitle')}</p>
+              {lobbiesLoading ? (
+                <p className="mt-4 text-sm text-slate-400">{t('landing.browse.loading')}</p>
+              ) : lobbies.length === 0 ? (
+                <p className="mt-4 text-sm text-slate-400">{t('landing.browse.empty')}</p>
+              ) : (
+                <ul className="mt-4 max-h-72 space-y-3 overflow-y-auto pr-1">
+                  {lobbies.map((lobby) => (
+                    <li
+                      key={lobby.lobbyId}
+                      className="flex items-center justify-between gap-3 rounded-2xl border border-slate-800 bg-slate-950/60 px-4 py-3"
+                    >
+                      <div className="min-w-0 text-sm">
+                        <p className="truncate font-semibold text-white">{t('landing.browse.host', { name: lobby.hostName })}</p>
+                        <p className="text-slate-400">
+                          {themeLabel(themes.find((item) => item.id === lobby.theme) ?? { id: lobby.theme, label: lobby.theme })} ·{' '}
+                          {t('landing.browse.players', { players: lobby.players, maxPlayers: lobby.maxPlayers })} · {t(`phase.${lobby.phase}`)}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => navigate(`/lobby/${lobby.lobbyId}`)}
+                        className="shrink-0 rounded-xl border border-slate-700 px-3 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white"
+                      >
+                        {t('landing.browse.join')}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
             <div className="mt-10 rounded-2xl border border-slate-800 bg-slate-950/60 p-6 text-sm text-slate-300">
-              <h3 className="text-lg font-semibold text-white">How it works</h3>
+              <h3 className="text-lg font-semibold text-white">{t('landing.how.title')}</h3>
               <ol className="mt-3 list-decimal space-y-2 pl-5">
-                <li>Create your lobby and copy the invite link.</li>
-                <li>Everyone picks memes that match the situation prompt.</li>
-                <li>Rank the funniest memes, score points, and crown the winner!</li>
+                <li>{t('landing.how.step1')}</li>
+                <li>{t('landing.how.step2')}</li>
+                <li>{t('landing.how.step3')}</li>
               </ol>
             </div>
           </section>
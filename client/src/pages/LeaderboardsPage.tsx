@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { LeaderboardSeason, LeaderboardsResponse } from '@shared/types';
+import { getLeaderboards } from '../api';
+import LocaleSwitcher from '../components/LocaleSwitcher';
+import { useAccount } from '../hooks/useAccount';
+import { useI18n } from '../i18n';
+
+type Board = 'rating' | LeaderboardSeason;
+
+const BOARDS: Board[] = ['rating', 'weekly', 'monthly', 'allTime'];
+
+/** Ratings and seasonal boards across every lobby, for players with a profile. */
+export default function LeaderboardsPage() {
+  const { t } = useI18n();
+  const { account } = useAccount();
+  const [leaderboards, setLeaderboards] = useState<LeaderboardsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [board, setBoard] = useState<Board>('rating');
+  const [sortBy, setSortBy] = useState<'points' | 'wins'>('points');
+
+  useEffect(() => {
+    let cancelled = false;
+    getLeaderboards()
+      .then((result) => {
+        if (!cancelled) setLeaderboards(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t('leaderboards.failed'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [t]);
+
+  const rows = (() => {
+    if (!leaderboards) return [];
+    if (board === 'rating') {
+      return leaderboards.ratings.map((entry) => ({
+        ...entry,
+        value: entry.rating,
+        detail: t('leaderboards.gamesRated', { games: entry.gamesRated })
+      }));
+    }
+    const season = leaderboards[board];
+    return (sortBy === 'points' ? season.byPoints : season.byWins).map((entry) => ({
+      ...entry,
+      value: sortBy === 'points' ? t('player.points', { points: entry.points }) : t('leaderboards.wins', { wins: entry.wins }),
+      detail: t('leaderboards.gamesPlayed', { games: entry.gamesPlayed })
+    }));
+  })();
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <header className="border-b border-slate-900 bg-slate-950/80 backdrop-blur">
+        <div className="mx-auto flex max-w-4xl flex-col gap-4 px-6 py-6 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold">{t('leaderboards.title')}</h1>
+            <p className="text-sm text-slate-400">{t('leaderboards.subtitle')}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <LocaleSwitcher />
+            <Link
+              to="/"
+              className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white"
+            >
+              {t('archive.home')}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto flex max-w-4xl flex-col gap-6 px-6 py-8">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap gap-2">
+            {BOARDS.map((item) => (
+              <button
+                key={item}
+                onClick={() => setBoard(item)}
+                className={`rounded-xl border px-4 py-2 text-sm transition ${
+                  board === item ? 'border-brand bg-brand/20 text-white' : 'border-slate-700 text-slate-300 hover:border-brand hover:text-white'
+                }`}
+              >
+                {t(`leaderboards.board.${item}`)}
+              </button>
+            ))}
+          </div>
+          {board !== 'rating' && (
+            <div className="flex gap-2 text-sm">
+              {(['points', 'wins'] as const).map((item) => (
+                <button
+                  key={item}
+                  onClick={() => setSortBy(item)}
+                  className={sortBy === item ? 'font-semibold text-brand' : 'text-slate-400 hover:text-white'}
+                >
+                  {t(`leaderboards.sort.${item}`)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {leaderboards && board !== 'rating' && (
+          <p className="text-sm text-slate-500">{t('leaderboards.period', { period: leaderboards[board].period })}</p>
+        )}
+
+        {!leaderboards ? (
+          <p className="text-slate-400">{error ?? t('archive.loading')}</p>
+        ) : rows.length === 0 ? (
+          <p className="text-slate-400">{t('leaderboards.empty')}</p>
+        ) : (
+          <ol className="space-y-2">
+            {rows.map((row, index) => (
+              <li
+                key={row.profileId}
+                className={`flex items-center justify-between rounded-2xl border px-4 py-3 ${
+                  row.profileId === account?.profileId ? 'border-brand bg-brand/10' : 'border-slate-800 bg-slate-900/70'
+                }`}
+              >
+                <Link to={`/profile/${row.profileId}`} className="text-slate-200 hover:text-white">
+                  <span className="mr-3 text-slate-500">{index + 1}.</span>
+                  {row.avatar} {row.name}
+                </Link>
+                <span className="text-right">
+                  <span className="block font-semibold text-brand">{row.value}</span>
+                  <span className="block text-xs text-slate-500">{row.detail}</span>
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,20 +1,41 @@
 import { useEffect, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
-import type {
-  HighlightMoment,
-  LobbySettings,
-  LobbyStatePayload,
-  MemeCard,
-  PlayerPublicState,
-  RoundResultEntry,
-  RoundSubmissionView
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { audienceVotingSchema, gameModeSchema, scoringMethodSchema, votingModeSchema } from '@shared/schemas';
+import {
+  AUDIENCE_WEIGHT_LIMITS,
+  type AudienceVoting,
+  type GameMode,
+  type HighlightMoment,
+  type Locale,
+  type LobbySettings,
+  type LobbyStatePayload,
+  type MemeCard,
+  type PlayerPublicState,
+  type RoundResultEntry,
+  type RoundSubmissionView,
+  type ScoringMethod,
+  type VotingMode
 } from '@shared/types';
-import { getLobby } from '../api';
+import { getLobby, resolveAssetUrl, type LobbySummary } from '../api';
+import LocaleSwitcher from '../components/LocaleSwitcher';
+import MemePackPicker from '../components/MemePackPicker';
+import PacePicker from '../components/PacePicker';
+import PromptPackPicker from '../components/PromptPackPicker';
+import ScoreBreakdown from '../components/ScoreBreakdown';
 import { pickRandomAvatar, pickRandomName } from '../data';
 import { useSocketLobby } from '../hooks/useSocketLobby';
+import { useThemes } from '../hooks/useThemes';
+import { LOCALES, useI18n } from '../i18n';
 
 const PROFILE_KEY = 'meme-game:profile';
 
+const VOTING_TEXT = {
+  ranking: { title: 'voting.title', hint: 'voting.hint', submit: 'voting.submit', update: 'voting.update' },
+  favorite: { title: 'voting.favoriteTitle', hint: 'voting.favoriteHint', submit: 'voting.submitPicks', update: 'voting.updatePicks' },
+  approval: { title: 'voting.approvalTitle', hint: 'voting.approvalHint', submit: 'voting.submitPicks', update: 'voting.updatePicks' },
+  judge: { title: 'judge.votingTitle', hint: 'judge.votingHint', submit: 'judge.submit', update: 'judge.update' }
+} as const;
+
 interface Profile {
   name: string;
   avatar: string;
@@ -66,31 +87,52 @@ function sortPlayers(players: PlayerPublicState[]): PlayerPublicState[] {
 export default function LobbyPage() {
   const { lobbyId } = useParams();
   const navigate = useNavigate();
+  const { locale, t, themeLabel } = useI18n();
   const [profile, setProfile, randomizeProfile] = useProfile();
+  const [summary, setSummary] = useState<LobbySummary | null>(null);
   const [summaryError, setSummaryError] = useState<string | null>(null);
   const [summaryLoading, setSummaryLoading] = useState(true);
-  const { state, error, joinLobby, connectionStatus, submitMeme, submitVote, startGame, updateSettings, updateName, updateAvatar } = useSocketLobby(lobbyId ?? '');
+  const { state, error, pending, joinLobby, connectionStatus, submitMeme, submitVote, startGame, updateSettings, updateName, updateAvatar, kickPlayer, transferHost, setLocked, setSpectator, setPaused, skipPhase, extendPhase, endGame, rematch } =
+    useSocketLobby(lobbyId ?? '');
   const [joining, setJoining] = useState(false);
+  const [password, setPassword] = useState('');
   const [voteOrder, setVoteOrder] = useState<string[]>([]);
+  const [picks, setPicks] = useState<string[]>([]);
+  const themes = useThemes();
 
   useEffect(() => {
     if (!lobbyId) return;
     setSummaryLoading(true);
     getLobby(lobbyId)
-      .then((data) => {
+      .then((result) => {
+        setSummary(result);
         setSummaryError(null);
       })
       .catch((err) => {
-        setSummaryError(err instanceof Error ? err.message : 'Lobby not found');
+        setSummaryError(err instanceof Error ? err.message : t('lobby.notFound'));
       })
       .finally(() => setSummaryLoading(false));
-  }, [lobbyId]);
+  }, [lobbyId, t]);
 
   const playerId = state?.you?.id;
   const isHost = state ? state.hostId === state.you?.id : false;
   const isSpectator = state?.you?.spectator ?? false;
+  const audienceVoting = state?.settings.audienceVoting ?? 'off';
+  const hasVoted = state?.players.find((player) => player.id === playerId)?.voted ?? false;
   const round = state?.round;
   const timeLeft = useCountdown(round?.endsAt);
+  const pausedSeconds = round?.remainingMs !== undefined ? Math.ceil(round.remainingMs / 1000) : timeLeft;
+  const judgeMode = state?.settings.gameMode === 'judge';
+  const judge = state?.players.find((player) => player.id === round?.judgeId);
+  const isJudge = Boolean(playerId) && playerId === round?.judgeId;
+  const ballotStyle = judgeMode
+    ? 'judge'
+    : state?.settings.scoring === 'approval'
+      ? 'approval'
+      : state?.settings.votingMode === 'favorite'
+        ? 'favorite'
+        : 'ranking';
+  const votingText = VOTING_TEXT[ballotStyle];
 
   useEffect(() => {
     if (round?.phase === 'voting') {
@@ -99,6 +141,7 @@ export default function LobbyPage() {
     } else {
       setVoteOrder([]);
     }
+    setPicks([]);
   }, [round?.phase, round?.submissions]);
 
   useEffect(() => {
@@ -110,7 +153,7 @@ export default function LobbyPage() {
   if (!lobbyId) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-slate-950 text-white">
-        <p>Lobby not found.</p>
+        <p>{t('lobby.notFound')}</p>
       </div>
     );
   }
@@ -118,7 +161,7 @@ export default function LobbyPage() {
   const handleJoin = async (spectator?: boolean) => {
     setJoining(true);
     try {
-      await joinLobby({ lobbyId, name: profile.name, avatar: profile.avatar, spectator });
+      await joinLobby({ lobbyId, name: profile.name, avatar: profile.avatar, spectator, password, locale });
     } catch (err) {
       console.error(err);
     } finally {
@@ -127,12 +170,13 @@ export default function LobbyPage() {
   };
 
   const handleSubmitVote = () => {
-    if (!voteOrder.length) return;
-    submitVote({ ranking: voteOrder });
+    const ballot = ballotStyle === 'ranking' ? voteOrder : picks;
+    if (!ballot.length) return;
+    submitVote({ ranking: ballot });
   };
 
   const handleSubmitMeme = (card: MemeCard) => {
-    if (state?.you?.submittedMemeId) return;
+    if (state?.you?.submittedMemeId || pending.submitMeme) return;
     submitMeme({ memeId: card.id });
   };
 
@@ -148,11 +192,15 @@ export default function LobbyPage() {
 
   const renderJoinCard = () => (
     <div className="mx-auto mt-10 max-w-lg rounded-3xl border border-slate-800 bg-slate-900/70 p-8 text-white shadow-xl">
-      <h2 className="text-2xl font-semibold">Join lobby</h2>
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-2xl font-semibold">{t('lobby.join.title')}</h2>
+        <LocaleSwitcher />
+      </div>
       {summaryError && <p className="mt-2 text-sm text-rose-400">{summaryError}</p>}
+      {error && <p className="mt-2 text-sm text-rose-400">{error.message}</p>}
       <div className="mt-6 space-y-5">
         <div>
-          <label className="block text-sm font-semibold text-slate-200">Display name</label>
+          <label className="block text-sm font-semibold text-slate-200">{t('profile.displayName')}</label>
           <div className="mt-2 flex items-center gap-3">
             <span className="text-3xl" aria-hidden>
               {profile.avatar}
@@ -169,12 +217,12 @@ export default function LobbyPage() {
               className="rounded-lg border border-slate-700 px-3 py-2 text-sm text-slate-300 transition hover:border-brand hover:text-white"
               onClick={randomizeProfile}
             >
-              Randomize
+              {t('profile.randomize')}
             </button>
           </div>
         </div>
         <div>
-          <label className="block text-sm font-semibold text-slate-200">Emoji avatar</label>
+          <label className="block text-sm font-semibold text-slate-200">{t('profile.avatar')}</label>
           <input
             className="mt-2 w-20 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-center text-2xl"
             value={profile.avatar}
@@ -182,26 +230,82 @@ export default function LobbyPage() {
             required
           />
         </div>
+        {summary?.hasPassword && (
+          <label className="flex flex-col text-sm font-semibold text-slate-200">
+            {t('lobby.join.password')}
+            <input
+              type="password"
+              autoComplete="current-password"
+              maxLength={64}
+              className="mt-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+            />
+          </label>
+        )}
         <div className="flex flex-col gap-3 sm:flex-row">
           <button
             onClick={() => handleJoin(false)}
             disabled={joining || connectionStatus === 'connecting'}
             className="flex-1 rounded-xl bg-brand px-4 py-3 text-lg font-semibold text-white shadow-lg transition hover:bg-brand-light disabled:cursor-not-allowed disabled:opacity-70"
           >
-            {joining ? 'Joining…' : 'Join as player'}
+            {joining ? t('lobby.join.joining') : t('lobby.join.asPlayer')}
           </button>
           <button
             onClick={() => handleJoin(true)}
             disabled={joining || connectionStatus === 'connecting'}
             className="flex-1 rounded-xl border border-slate-700 px-4 py-3 text-lg font-semibold text-slate-200 transition hover:border-brand hover:text-white"
           >
-            Spectate
+            {t('lobby.join.spectate')}
           </button>
         </div>
       </div>
     </div>
   );
 
+  const handleBan = (player: PlayerPublicState) => {
+    if (window.confirm(t('player.banConfirm', { name: player.name }))) {
+      kickPlayer({ playerId: player.id, ban: true });
+    }
+  };
+
+  const renderModeration = (player: PlayerPublicState) => {
+    const controlClass =
+      'rounded-lg border border-slate-700 px-2 py-1 text-xs text-slate-300 transition hover:border-brand hover:text-white';
+    return (
+      <div className="mt-3 flex flex-wrap gap-2">
+        {!player.spectator && (
+          <button onClick={() => transferHost({ playerId: player.id })} className={controlClass}>
+            {t('player.makeHost')}
+          </button>
+        )}
+        {player.spectator ? (
+          (state?.phase === 'lobby' || state?.phase === 'finalResults') && (
+            <button onClick={() => setSpectator({ playerId: player.id, spectator: false })} className={controlClass}>
+              {t('player.makePlayer')}
+            </button>
+          )
+        ) : (
+          <button onClick={() => setSpectator({ playerId: player.id, spectator: true })} className={controlClass}>
+            {t('player.makeSpectator')}
+          </button>
+        )}
+        <button
+          onClick={() => kickPlayer({ playerId: player.id })}
+          className="rounded-lg border border-slate-700 px-2 py-1 text-xs text-slate-300 transition hover:border-rose-500 hover:text-white"
+        >
+          {t('player.kick')}
+        </button>
+        <button
+          onClick={() => handleBan(player)}
+          className="rounded-lg border border-rose-500/60 px-2 py-1 text-xs text-rose-300 transition hover:bg-rose-500/10 hover:text-white"
+        >
+          {t('player.ban')}
+        </button>
+      </div>
+    );
+  };
+
   const renderPlayers = (players: PlayerPublicState[]) => (
     <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
       {players.map((player) => (
@@ -214,16 +318,17 @@ export default function LobbyPage() {
           <div className="flex items-center justify-between">
             <div>
               <div className="text-lg font-semibold text-white">{player.name}</div>
-              <div className="text-sm text-slate-400">{player.isHost ? 'Host' : player.spectator ? 'Spectator' : 'Player'}</div>
+              <div className="text-sm text-slate-400">{player.isHost ? t('player.host') : player.spectator ? t('player.spectator') : t('player.player')}</div>
             </div>
             <div className="text-3xl" aria-hidden>
               {player.avatar}
             </div>
           </div>
           <div className="mt-3 flex items-center justify-between text-sm text-slate-300">
-            <span>{player.connected ? 'Online' : 'Offline'}</span>
-            <span className="font-semibold text-brand-light">{player.score} pts</span>
+            <span>{player.connected ? t('player.online') : t('player.offline')}</span>
+            <span className="font-semibold text-brand-light">{t('player.points', { points: player.score })}</span>
           </div>
+          {isHost && player.id !== playerId && renderModeration(player)}
         </div>
       ))}
     </div>
@@ -242,9 +347,9 @@ export default function LobbyPage() {
               : 'border-slate-800 bg-slate-900/70 hover:border-brand hover:bg-slate-900'
           }`}
         >
-          <img src={card.url} alt={card.alt ?? 'Meme card'} className="h-56 w-full object-cover" />
+          <img src={resolveAssetUrl(card.url)} alt={card.alt ?? t('selection.cardAlt')} className="h-56 w-full object-cover" />
           <div className="px-4 py-3 text-left">
-            <p className="text-sm text-slate-300">Tap to submit this meme</p>
+            <p className="text-sm text-slate-300">{t('selection.tapToSubmit')}</p>
           </div>
         </button>
       ))}
@@ -261,7 +366,63 @@ export default function LobbyPage() {
     });
   };
 
+  const togglePick = (submissionPlayerId: string) => {
+    setPicks((prev) => {
+      if (prev.includes(submissionPlayerId)) return prev.filter((id) => id !== submissionPlayerId);
+      if (ballotStyle === 'judge') return [submissionPlayerId];
+      // A third tap in favorite voting swaps out the runner-up.
+      if (ballotStyle === 'favorite' && prev.length >= 2) return [prev[0], submissionPlayerId];
+      return [...prev, submissionPlayerId];
+    });
+  };
+
+  const pickLabel = (index: number) => {
+    if (ballotStyle === 'approval') return index < 0 ? t('voting.approve') : t('voting.approved');
+    if (ballotStyle === 'judge') return index < 0 ? t('voting.pick') : t('judge.winner');
+    if (index < 0) return t('voting.pick');
+    return index === 0 ? t('voting.favorite') : t('voting.runnerUp');
+  };
+
+  const renderVoteSubmit = (disabled: boolean) => (
+    <button
+      onClick={handleSubmitVote}
+      disabled={pending.submitVote || disabled}
+      className="w-full rounded-xl bg-brand px-4 py-3 text-lg font-semibold text-white shadow-lg transition hover:bg-brand-light disabled:cursor-wait disabled:opacity-60"
+    >
+      {pending.submitVote ? t('voting.submitting') : hasVoted ? t(votingText.update) : t(votingText.submit)}
+    </button>
+  );
+
+  const renderPickVoting = (submissions: RoundSubmissionView[]) => (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-300">{t(votingText.hint)}</p>
+      <div className="grid gap-4 md:grid-cols-2">
+        {submissions.map((submission) => {
+          const pickIndex = picks.indexOf(submission.playerId);
+          const picked = pickIndex >= 0;
+          return (
+            <button
+              key={submission.playerId}
+              onClick={() => togglePick(submission.playerId)}
+              className={`overflow-hidden rounded-2xl border text-left transition ${
+                picked ? 'border-brand bg-brand/10' : 'border-slate-800 bg-slate-900/70 hover:border-brand'
+              }`}
+            >
+              <img src={resolveAssetUrl(submission.meme.url)} alt={submission.meme.alt ?? t('voting.submissionAlt')} className="h-48 w-full object-cover" />
+              <div className="flex items-center justify-between px-4 py-3">
+                <span className="text-2xl font-semibold text-brand">{submission.slot}</span>
+                <span className={`text-sm font-semibold ${picked ? 'text-brand' : 'text-slate-400'}`}>{pickLabel(pickIndex)}</span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+      {renderVoteSubmit(picks.length === 0)}
+    </div>
+  );
+
   const renderVoting = (submissions: RoundSubmissionView[]) => {
+    if (ballotStyle !== 'ranking') return renderPickVoting(submissions);
     const ordered = voteOrder.length
       ? voteOrder.map((id) => submissions.find((submission) => submission.playerId === id)).filter(Boolean) as RoundSubmissionView[]
       : submissions;
@@ -270,10 +431,10 @@ export default function LobbyPage() {
         {ordered.map((submission, index) => (
           <div key={submission.playerId} className="flex flex-col gap-4 rounded-2xl border border-slate-800 bg-slate-900/70 p-4 md:flex-row">
             <div className="flex-shrink-0 text-2xl font-semibold text-brand">{String.fromCharCode(65 + index)}</div>
-            <img src={submission.meme.url} alt={submission.meme.alt ?? 'Submitted meme'} className="h-48 w-full rounded-xl object-cover md:w-72" />
+            <img src={resolveAssetUrl(submission.meme.url)} alt={submission.meme.alt ?? t('voting.submissionAlt')} className="h-48 w-full rounded-xl object-cover md:w-72" />
             <div className="flex flex-1 flex-col justify-between">
               <div>
-                <p className="text-sm text-slate-300">Use the arrows to reorder from funniest to least.</p>
+                <p className="text-sm text-slate-300">{t('voting.hint')}</p>
               </div>
               <div className="mt-4 flex items-center gap-2">
                 <button
@@ -281,33 +442,33 @@ export default function LobbyPage() {
                   className="rounded-lg border border-slate-700 px-3 py-2 text-sm text-slate-300 transition hover:border-brand hover:text-white"
                   disabled={index === 0}
                 >
-                  ▲ Up
+                  {t('voting.up')}
                 </button>
                 <button
                   onClick={() => moveVote(index, 1)}
                   className="rounded-lg border border-slate-700 px-3 py-2 text-sm text-slate-300 transition hover:border-brand hover:text-white"
                   disabled={index === ordered.length - 1}
                 >
-                  ▼ Down
+                  {t('voting.down')}
                 </button>
-                <span className="ml-auto rounded-full bg-brand/10 px-4 py-2 text-sm font-semibold text-brand">Rank {index + 1}</span>
+                <span className="ml-auto rounded-full bg-brand/10 px-4 py-2 text-sm font-semibold text-brand">
+                  {t('voting.rank', { rank: index + 1 })}
+                </span>
               </div>
             </div>
           </div>
         ))}
-        <button
-          onClick={handleSubmitVote}
-          className="w-full rounded-xl bg-brand px-4 py-3 text-lg font-semibold text-white shadow-lg transition hover:bg-brand-light"
-        >
-          Submit ranking
-        </button>
+        {renderVoteSubmit(false)}
       </div>
     );
   };
 
   const renderRoundResults = (roundState: LobbyStatePayload['round']) => (
     <div className="space-y-4">
-      <h3 className="text-xl font-semibold text-white">Round leaderboard</h3>
+      <h3 className="text-xl font-semibold text-white">{t('results.roundTitle')}</h3>
+      {roundState?.audienceBallots !== undefined && (
+        <p className="text-sm text-slate-400">{t('audience.ballots', { count: roundState.audienceBallots })}</p>
+      )}
       <div className="grid gap-4 md:grid-cols-2">
         {roundState?.leaderboard.map((entry: RoundResultEntry) => {
           const player = state?.players.find((p) => p.id === entry.playerId);
@@ -321,7 +482,12 @@ export default function LobbyPage() {
                 </div>
                 <span className="rounded-full bg-brand/20 px-3 py-1 text-sm font-semibold text-brand">+{entry.points}</span>
               </div>
-              <p className="mt-3 text-sm text-slate-300">1st place votes: {entry.firstPlaceVotes}</p>
+              <ScoreBreakdown
+                className="mt-3 text-sm text-slate-300"
+                entry={entry}
+                scoring={state?.settings.scoring}
+                judged={Boolean(roundState.judgeId)}
+              />
             </div>
           );
         })}
@@ -335,22 +501,71 @@ export default function LobbyPage() {
       <div className="mt-6 grid gap-4 md:grid-cols-2">
         {moments.slice(0, 3).map((moment, index) => (
           <div key={`${moment.card.id}-${index}`} className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4">
-            <img src={moment.card.url} alt={moment.card.alt ?? 'Winning meme'} className="h-48 w-full rounded-xl object-cover" />
+            <img src={resolveAssetUrl(moment.card.url)} alt={moment.card.alt ?? t('results.winningAlt')} className="h-48 w-full rounded-xl object-cover" />
             <p className="mt-3 text-sm text-slate-300">
-              Round {moment.roundNumber} · {moment.situation.text}
+              {t('results.moment', { round: moment.roundNumber, situation: moment.situation.text })}
             </p>
-            <p className="text-sm font-semibold text-brand">{moment.points} points</p>
+            <p className="text-sm font-semibold text-brand">{t('results.momentPoints', { points: moment.points })}</p>
           </div>
         ))}
       </div>
     );
   };
 
+  const renderSeries = (lobby: LobbyStatePayload) => {
+    if (!lobby.history.length) return null;
+    return (
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4">
+          <h4 className="text-lg font-semibold text-white">{t('series.title', { games: lobby.history.length })}</h4>
+          <ul className="mt-3 space-y-2 text-sm">
+            {lobby.series.map((entry) => (
+              <li key={entry.playerId} className="flex items-center justify-between text-slate-200">
+                <span>
+                  {entry.avatar} {entry.name}
+                </span>
+                <span className="text-slate-400">
+                  {t('series.record', { wins: entry.wins, games: entry.gamesPlayed, points: entry.totalScore })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4">
+          <h4 className="text-lg font-semibold text-white">{t('series.history')}</h4>
+          <ul className="mt-3 space-y-2 text-sm">
+            {[...lobby.history].reverse().map((game) => {
+              const winners = game.results.filter((result) => result.rank === 1);
+              const label = t('series.game', {
+                number: game.gameNumber,
+                theme: themeLabel(themes.find((item) => item.id === game.theme) ?? { id: game.theme, label: game.theme })
+              });
+              return (
+                <li key={game.gameNumber} className="text-slate-300">
+                  {game.gameId ? (
+                    <Link to={`/games/${game.gameId}`} className="underline decoration-slate-600 hover:text-white">
+                      {label}
+                    </Link>
+                  ) : (
+                    label
+                  )}
+                  {' · '}
+                  <span className="text-white">{winners.map((result) => `${result.avatar} ${result.name}`).join(', ')}</span>
+                  {winners[0] && ` · ${t('player.points', { points: winners[0].score })}`}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    );
+  };
+
   if (!state) {
     if (summaryLoading) {
       return (
         <div className="flex min-h-screen items-center justify-center bg-slate-950 text-white">
-          <p>Loading lobby…</p>
+          <p>{t('lobby.loading')}</p>
         </div>
       );
     }
@@ -362,62 +577,128 @@ export default function LobbyPage() {
       <header className="border-b border-slate-900 bg-slate-950/80 backdrop-blur">
         <div className="mx-auto flex max-w-6xl flex-col gap-4 px-6 py-6 md:flex-row md:items-center md:justify-between">
           <div>
-            <h1 className="text-2xl font-semibold">Lobby #{lobbyId}</h1>
-            <p className="text-sm text-slate-400">Theme: {state.settings.theme} · Rounds: {state.settings.rounds}</p>
+            <h1 className="text-2xl font-semibold">{t('lobby.title', { lobbyId })}</h1>
+            <p className="text-sm text-slate-400">
+              {t('lobby.summary', {
+                theme: themeLabel(themes.find((item) => item.id === state.settings.theme) ?? { id: state.settings.theme, label: state.settings.theme }),
+                rounds: state.settings.rounds
+              })}
+              {state.settings.memePackId && ` · ${t('lobby.customDeck')}`}
+              {state.settings.promptPackId && state.settings.promptMix !== 'builtin' && ` · ${t('lobby.customPrompts')}`}
+              {state.locked && ` · ${t('lobby.locked')}`}
+              {state.inviteOnly && ` · ${t('lobby.inviteOnly')}`}
+            </p>
+            {!state.inviteOnly && (
+              <p className="mt-1 font-mono text-sm tracking-widest text-brand">{t('lobby.code', { code: state.code })}</p>
+            )}
           </div>
           <div className="flex flex-wrap items-center gap-3">
+            <LocaleSwitcher />
             <button
               onClick={copyInviteLink}
               className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white"
             >
-              Copy invite link
+              {t('lobby.copyInvite')}
             </button>
-            {!isSpectator && state.phase === 'lobby' && (
+            {isHost && (
+              <button
+                onClick={() => setLocked({ locked: !state.locked })}
+                className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white"
+              >
+                {state.locked ? t('lobby.unlock') : t('lobby.lock')}
+              </button>
+            )}
+            {isHost && state.phase === 'lobby' && (
               <button
                 onClick={() => startGame()}
-                className="rounded-xl bg-brand px-4 py-2 text-sm font-semibold text-white shadow-lg transition hover:bg-brand-light"
+                disabled={pending.startGame}
+                className="rounded-xl bg-brand px-4 py-2 text-sm font-semibold text-white shadow-lg transition hover:bg-brand-light disabled:cursor-wait disabled:opacity-60"
               >
-                Start game
+                {pending.startGame ? t('lobby.starting') : t('lobby.start')}
               </button>
             )}
             <button
               onClick={() => navigate('/')}
               className="rounded-xl border border-slate-800 px-4 py-2 text-sm text-slate-300 transition hover:border-rose-500 hover:text-white"
             >
-              Exit
+              {t('lobby.exit')}
             </button>
           </div>
         </div>
       </header>
 
       <main className="mx-auto flex max-w-6xl flex-col gap-8 px-6 py-8">
-        {error && <div className="rounded-xl border border-rose-500 bg-rose-500/10 p-4 text-sm text-rose-200">{error}</div>}
+        {error && <div className="rounded-xl border border-rose-500 bg-rose-500/10 p-4 text-sm text-rose-200">{error.message}</div>}
 
         <section className="space-y-5">
           <div className="flex flex-col gap-3 rounded-3xl border border-slate-800 bg-slate-900/70 p-6 md:flex-row md:items-center md:justify-between">
             <div>
-              <p className="text-sm uppercase tracking-wide text-slate-400">Current phase</p>
-              <h2 className="text-2xl font-semibold text-white">{state.phase}</h2>
+              <p className="text-sm uppercase tracking-wide text-slate-400">{t('lobby.currentPhase')}</p>
+              <h2 className="text-2xl font-semibold text-white">{t(`phase.${state.phase}`)}</h2>
               {round?.situation && (
                 <p className="mt-2 text-lg text-slate-200">{round.situation.text}</p>
               )}
+              {judge && (
+                <p className="mt-2 text-sm font-semibold text-brand">
+                  {isJudge ? t('judge.you') : t('judge.banner', { avatar: judge.avatar, name: judge.name })}
+                </p>
+              )}
             </div>
-            {round?.endsAt && (
+            {(round?.endsAt || round?.paused) && (
               <div className="text-right">
-                <p className="text-sm text-slate-400">Time remaining</p>
-                <p className="text-3xl font-semibold text-brand">{timeLeft}s</p>
+                <p className="text-sm text-slate-400">{round.paused ? t('lobby.paused') : t('lobby.timeRemaining')}</p>
+                {(round.endsAt || round.remainingMs !== undefined) && (
+                  <p className={`text-3xl font-semibold ${round.paused ? 'text-amber-400' : 'text-brand'}`}>
+                    {t('lobby.seconds', { seconds: round.paused ? pausedSeconds : timeLeft })}
+                  </p>
+                )}
               </div>
             )}
           </div>
 
+          {isHost && round && (
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => setPaused({ paused: !round.paused })}
+                disabled={pending.setPaused}
+                className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white disabled:opacity-60"
+              >
+                {round.paused ? t('lobby.resume') : t('lobby.pause')}
+              </button>
+              {state.settings.durations && (
+                <button
+                  onClick={() => extendPhase({ seconds: 30 })}
+                  disabled={pending.extendPhase}
+                  className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white disabled:opacity-60"
+                >
+                  {t('lobby.extend', { seconds: 30 })}
+                </button>
+              )}
+              <button
+                onClick={() => skipPhase()}
+                disabled={pending.skipPhase}
+                className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white disabled:opacity-60"
+              >
+                {t('lobby.skip')}
+              </button>
+              <button
+                onClick={() => window.confirm(t('lobby.endGameConfirm')) && endGame()}
+                disabled={pending.endGame}
+                className="rounded-xl border border-slate-800 px-4 py-2 text-sm text-slate-300 transition hover:border-rose-500 hover:text-white disabled:opacity-60"
+              >
+                {t('lobby.endGame')}
+              </button>
+            </div>
+          )}
+
           {state.phase === 'lobby' && (
             <div className="space-y-6">
               {isHost && (
                 <div className="rounded-2xl border border-slate-800 bg-slate-900/80 p-6">
-                  <h3 className="text-lg font-semibold text-white">Host controls</h3>
-                  <div className="mt-4 grid gap-4 sm:grid-cols-3">
+                  <h3 className="text-lg font-semibold text-white">{t('lobby.hostControls')}</h3>
+                  <div className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
                     <label className="flex flex-col text-sm text-slate-300">
-                      Rounds
+                      {t('settings.rounds')}
                       <input
                         type="number"
                         min={5}
@@ -428,7 +709,7 @@ export default function LobbyPage() {
                       />
                     </label>
                     <label className="flex flex-col text-sm text-slate-300">
-                      Max players
+                      {t('settings.maxPlayers')}
                       <input
                         type="number"
                         min={2}
@@ -439,33 +720,158 @@ export default function LobbyPage() {
                       />
                     </label>
                     <label className="flex flex-col text-sm text-slate-300">
-                      Theme
+                      {t('settings.theme')}
                       <select
                         value={state.settings.theme}
-                        onChange={(event) => handleSettingChange({ theme: event.target.value as LobbySettings['theme'] })}
+                        onChange={(event) => handleSettingChange({ theme: event.target.value })}
+                        className="mt-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
+                      >
+                        {themes.map((item) => (
+                          <option key={item.id} value={item.id}>
+                            {themeLabel(item)}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex flex-col text-sm text-slate-300">
+                      {t('settings.promptLanguage')}
+                      <select
+                        value={state.settings.locale ?? 'en'}
+                        onChange={(event) => handleSettingChange({ locale: event.target.value as Locale })}
                         className="mt-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
                       >
-                        <option value="fun">Fun</option>
-                        <option value="university">University</option>
-                        <option value="18+">18+</option>
+                        {LOCALES.map((item) => (
+                          <option key={item.id} value={item.id}>
+                            {item.label}
+                          </option>
+                        ))}
                       </select>
                     </label>
                   </div>
+                  <div className="mt-4 text-sm text-slate-300">
+                    {t('settings.pace')}
+                    <PacePicker
+                      className="mt-2"
+                      pace={state.settings.pace}
+                      durations={state.settings.durations}
+                      onChange={handleSettingChange}
+                    />
+                  </div>
+                  <label className="mt-4 flex flex-col text-sm text-slate-300">
+                    {t('settings.gameMode')}
+                    <select
+                      value={state.settings.gameMode ?? 'classic'}
+                      onChange={(event) => handleSettingChange({ gameMode: event.target.value as GameMode })}
+                      className="mt-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
+                    >
+                      {gameModeSchema.options.map((item) => (
+                        <option key={item} value={item}>
+                          {t(`gameMode.${item}`)}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="mt-1 text-xs text-slate-400">{t(`gameMode.hint.${state.settings.gameMode ?? 'classic'}`)}</span>
+                  </label>
+                  <label className="mt-4 flex flex-col text-sm text-slate-300">
+                    {t('settings.scoring')}
+                    <select
+                      value={state.settings.scoring ?? 'borda'}
+                      onChange={(event) => handleSettingChange({ scoring: event.target.value as ScoringMethod })}
+                      disabled={judgeMode}
+                      className="mt-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white disabled:opacity-60"
+                    >
+                      {scoringMethodSchema.options.map((item) => (
+                        <option key={item} value={item}>
+                          {t(`scoring.${item}`)}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="mt-1 text-xs text-slate-400">
+                      {judgeMode ? t('gameMode.scoringHint') : t(`scoring.hint.${state.settings.scoring ?? 'borda'}`)}
+                    </span>
+                  </label>
+                  <label className="mt-4 flex flex-col text-sm text-slate-300">
+                    {t('settings.votingMode')}
+                    <select
+                      value={state.settings.votingMode ?? 'ranking'}
+                      onChange={(event) => handleSettingChange({ votingMode: event.target.value as VotingMode })}
+                      disabled={judgeMode || state.settings.scoring === 'approval'}
+                      className="mt-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white disabled:opacity-60"
+                    >
+                      {votingModeSchema.options.map((item) => (
+                        <option key={item} value={item}>
+                          {t(`votingMode.${item}`)}
+                        </option>
+                      ))}
+                    </select>
+                    {!judgeMode && state.settings.scoring === 'approval' && (
+                      <span className="mt-1 text-xs text-slate-400">{t('votingMode.approvalHint')}</span>
+                    )}
+                  </label>
+                  <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                    <label className="flex flex-col text-sm text-slate-300">
+                      {t('settings.audience')}
+                      <select
+                        value={audienceVoting}
+                        onChange={(event) => handleSettingChange({ audienceVoting: event.target.value as AudienceVoting })}
+                        className="mt-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
+                      >
+                        {audienceVotingSchema.options.map((item) => (
+                          <option key={item} value={item}>
+                            {t(`audience.${item}`)}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    {audienceVoting === 'blend' && (
+                      <label className="flex flex-col text-sm text-slate-300">
+                        {t('audience.weight')}
+                        <input
+                          type="number"
+                          min={AUDIENCE_WEIGHT_LIMITS.min}
+                          max={AUDIENCE_WEIGHT_LIMITS.max}
+                          value={state.settings.audienceWeight ?? AUDIENCE_WEIGHT_LIMITS.min}
+                          onChange={(event) => handleSettingChange({ audienceWeight: Number(event.target.value) })}
+                          className="mt-2 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-white"
+                        />
+                      </label>
+                    )}
+                  </div>
+                  <div className="mt-4 text-sm text-slate-300">
+                    {t('settings.memeDeck')}
+                    <MemePackPicker
+                      className="mt-2"
+                      value={state.settings.memePackId}
+                      onChange={(memePackId) => handleSettingChange({ memePackId })}
+                    />
+                  </div>
+                  <div className="mt-4 text-sm text-slate-300">
+                    {t('settings.prompts')}
+                    <PromptPackPicker
+                      className="mt-2"
+                      packId={state.settings.promptPackId}
+                      mix={state.settings.promptMix}
+                      onChange={handleSettingChange}
+                    />
+                  </div>
                 </div>
               )}
               <div>
-                <h3 className="text-lg font-semibold text-white">Players</h3>
+                <h3 className="text-lg font-semibold text-white">{t('lobby.players')}</h3>
                 {renderPlayers(sortPlayers(state.players))}
               </div>
+              {renderSeries(state)}
             </div>
           )}
 
           {state.phase === 'selection' && !isSpectator && state.you && (
             <div className="space-y-5">
-              <h3 className="text-lg font-semibold text-white">Pick the perfect meme</h3>
-              {state.you.submittedMemeId ? (
+              <h3 className="text-lg font-semibold text-white">{t('selection.title')}</h3>
+              {isJudge ? (
+                <p className="rounded-xl border border-brand/40 bg-brand/10 px-4 py-3 text-brand">{t('judge.selectionWait')}</p>
+              ) : state.you.submittedMemeId ? (
                 <p className="rounded-xl border border-brand/40 bg-brand/10 px-4 py-3 text-brand">
-                  Meme locked in! Waiting for other players…
+                  {t('selection.locked')}
                 </p>
               ) : (
                 renderHand(state.you.hand, state.you.submittedMemeId)
@@ -473,9 +879,22 @@ export default function LobbyPage() {
             </div>
           )}
 
-          {state.phase === 'voting' && !isSpectator && (
+          {state.phase === 'voting' && judge && !isJudge && !isSpectator && (
+            <p className="rounded-xl border border-brand/40 bg-brand/10 px-4 py-3 text-brand">
+              {t('judge.votingWait', { name: judge.name })}
+            </p>
+          )}
+
+          {state.phase === 'voting' && (isSpectator ? audienceVoting !== 'off' : !round?.judgeId || isJudge) && (
             <div className="space-y-5">
-              <h3 className="text-lg font-semibold text-white">Rank the funniest memes</h3>
+              <h3 className="text-lg font-semibold text-white">{t(votingText.title)}</h3>
+              {isSpectator && (
+                <p className="rounded-xl border border-brand/40 bg-brand/10 px-4 py-3 text-sm text-brand">
+                  {audienceVoting === 'blend'
+                    ? t('audience.blendNotice', { weight: state.settings.audienceWeight ?? 0 })
+                    : t('audience.awardNotice')}
+                </p>
+              )}
               {renderVoting(round?.submissions ?? [])}
             </div>
           )}
@@ -484,7 +903,7 @@ export default function LobbyPage() {
 
           {state.phase === 'finalResults' && state.finalResults && (
             <div className="space-y-5">
-              <h3 className="text-2xl font-semibold text-white">Final standings</h3>
+              <h3 className="text-2xl font-semibold text-white">{t('results.finalTitle')}</h3>
               <div className="grid gap-4 md:grid-cols-3">
                 {state.finalResults.slice(0, 3).map((entry, index) => {
                   const player = state.players.find((p) => p.id === entry.playerId);
@@ -495,7 +914,12 @@ export default function LobbyPage() {
                       <div className="text-4xl">{medal}</div>
                       <div className="mt-3 text-xl font-semibold text-white">{player.name}</div>
                       <div className="text-sm text-slate-400">{player.avatar}</div>
-                      <div className="mt-2 text-lg font-semibold text-brand">{entry.score} pts</div>
+                      <div className="mt-2 text-lg font-semibold text-brand">{t('player.points', { points: entry.score })}</div>
+                      {entry.audiencePoints !== undefined && (
+                        <div className="mt-1 text-sm text-slate-400">
+                          {t('audience.finalTally', { points: entry.audiencePoints, favorites: entry.audienceFavorites ?? 0 })}
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -506,6 +930,32 @@ export default function LobbyPage() {
                   .filter((moment): moment is HighlightMoment => Boolean(moment));
                 return renderFinalMoments(moments);
               })()}
+              {isHost && (
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    onClick={() => rematch({})}
+                    disabled={pending.rematch}
+                    className="rounded-xl bg-brand px-4 py-2 text-sm font-semibold text-white shadow-lg transition hover:bg-brand-light disabled:cursor-wait disabled:opacity-60"
+                  >
+                    {pending.rematch ? t('lobby.starting') : t('series.rematch')}
+                  </button>
+                  <button
+                    onClick={() => rematch({ rotateTheme: true })}
+                    disabled={pending.rematch}
+                    className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white disabled:opacity-60"
+                  >
+                    {t('series.rematchNextTheme')}
+                  </button>
+                  <button
+                    onClick={() => rematch({ backToLobby: true })}
+                    disabled={pending.rematch}
+                    className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white disabled:opacity-60"
+                  >
+                    {t('series.backToLobby')}
+                  </button>
+                </div>
+              )}
+              {renderSeries(state)}
             </div>
           )}
         </section>
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import type { PlayerProfile } from '@shared/types';
+import { getProfile, resolveAssetUrl } from '../api';
+import LocaleSwitcher from '../components/LocaleSwitcher';
+import { useAccount } from '../hooks/useAccount';
+import { useI18n } from '../i18n';
+
+/** Lifetime stats of a persistent player profile. */
+export default function ProfilePage() {
+  const { profileId } = useParams();
+  const navigate = useNavigate();
+  const { locale, t } = useI18n();
+  const { account, forget } = useAccount();
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!profileId) return;
+    let cancelled = false;
+    setProfile(null);
+    setError(null);
+    getProfile(profileId)
+      .then((result) => {
+        if (!cancelled) setProfile(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : t('account.notFound'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, t]);
+
+  if (!profile) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-slate-950 text-white">
+        <p>{error ?? t('archive.loading')}</p>
+        {error && (
+          <Link to="/" className="text-sm text-brand hover:underline">
+            {t('archive.home')}
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  const { stats } = profile;
+  const isMine = account?.profileId === profile.id;
+  const tiles = [
+    { label: t('account.gamesPlayed'), value: stats.gamesPlayed },
+    { label: t('account.wins'), value: stats.wins },
+    { label: t('account.roundsPlayed'), value: stats.roundsPlayed },
+    { label: t('account.averageRank'), value: stats.averageRoundRank?.toLocaleString(locale) ?? '—' },
+    { label: t('account.firstPlaceVotes'), value: stats.firstPlaceVotes }
+  ];
+
+  const handleForget = () => {
+    forget();
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <header className="border-b border-slate-900 bg-slate-950/80 backdrop-blur">
+        <div className="mx-auto flex max-w-6xl flex-col gap-4 px-6 py-6 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold">
+              {profile.avatar} {profile.name}
+            </h1>
+            <p className="text-sm text-slate-400">
+              {t('account.since', { date: new Date(profile.createdAt).toLocaleDateString(locale) })}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <LocaleSwitcher />
+            <Link
+              to="/"
+              className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-brand hover:text-white"
+            >
+              {t('archive.home')}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto flex max-w-6xl flex-col gap-8 px-6 py-8">
+        <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+          {tiles.map((tile) => (
+            <div key={tile.label} className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4">
+              <p className="text-sm text-slate-400">{tile.label}</p>
+              <p className="mt-1 text-2xl font-semibold text-white">{tile.value}</p>
+            </div>
+          ))}
+        </section>
+
+        <section className="space-y-4">
+          <h2 className="text-xl font-semibold text-white">{t('account.favoriteMemes')}</h2>
+          {stats.favoriteMemes.length > 0 ? (
+            <div className="grid gap-4 md:grid-cols-3">
+              {stats.favoriteMemes.map((entry) => (
+                <div key={entry.meme.id} className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4">
+                  <img
+                    src={resolveAssetUrl(entry.meme.url)}
+                    alt={entry.meme.alt ?? t('voting.submissionAlt')}
+                    className="h-48 w-full rounded-xl object-cover"
+                  />
+                  <div className="mt-3 flex items-start justify-between gap-3">
+                    <p className="text-sm text-slate-300">{entry.situation}</p>
+                    <span className="shrink-0 rounded-full bg-brand/20 px-3 py-1 text-sm font-semibold text-brand">+{entry.points}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-slate-400">{t('account.noFavorites')}</p>
+          )}
+        </section>
+
+        {isMine && (
+          <section className="text-sm text-slate-400">
+            <p>{t('account.deviceHint')}</p>
+            <button onClick={handleForget} className="mt-2 text-slate-300 underline decoration-slate-600 transition hover:text-white">
+              {t('account.forget')}
+            </button>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
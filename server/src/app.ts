@@ -0,0 +1,762 @@
+import http from 'node:http';
+import express, { type NextFunction, type Request, type Response } from 'express';
+import cors from 'cors';
+import { Server, type Socket } from 'socket.io';
+import type { ZodType, ZodTypeDef } from 'zod';
+import {
+  createLobbyRequestSchema,
+  createProfileRequestSchema,
+  createPromptPackRequestSchema,
+  extendPhasePayloadSchema,
+  joinCodeSchema,
+  joinLobbyRequestSchema,
+  kickPlayerPayloadSchema,
+  lockLobbyPayloadSchema,
+  memePackManifestSchema,
+  pausePhasePayloadSchema,
+  playerAvatarSchema,
+  playerNameSchema,
+  quickMatchRequestSchema,
+  rematchPayloadSchema,
+  setSpectatorPayloadSchema,
+  submitMemePayloadSchema,
+  submitVotePayloadSchema,
+  transferHostPayloadSchema,
+  updateSettingsPayloadSchema
+} from '../../shared/schemas.js';
+import {
+  ActionCallback,
+  ActionResult,
+  ClientToServerEvents,
+  CreateProfileResponse,
+  GameError,
+  GameErrorCode,
+  LeaderboardsResponse,
+  LobbySettings,
+  QuickMatchResponse,
+  ServerToClientEvents
+} from '../../shared/types.js';
+import { LobbyAction, LobbyGateway } from './cluster/lobbyGateway.js';
+import { DEFAULT_THEME, THEMES, isKnownTheme } from './constants.js';
+import { ClusterTransport, InMemoryClusterTransport } from './cluster/transport.js';
+import { GameManager, gameManager as defaultGameManager } from './game/gameManager.js';
+import { GameArchive, gameArchive } from './game/gameArchive.js';
+import { LeaderboardStore, leaderboardStore } from './game/leaderboards.js';
+import { MAX_PACK_BYTES, MemePackStore, memePackStore } from './game/memePacks.js';
+import { ProfileStore, profileStore } from './game/profiles.js';
+import { PromptPackStore, promptPackStore, summarizePromptPack } from './game/promptPacks.js';
+import { gameError } from './i18n.js';
+import { SessionSigner, createSessionSigner } from './sessions.js';
+import { parsePayload } from './validation.js';
+
+function normalizeOrigin(value: string | undefined | null): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    return url.origin;
+  } catch (error) {
+    return null;
+  }
+}
+
+const configuredOrigins = (process.env.CORS_ALLOWED_ORIGINS || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+const allowAllOrigins = configuredOrigins.length === 0;
+
+const allowedOrigins = new Set<string>();
+
+function addAllowedOrigin(candidate: string | undefined | null) {
+  const normalized = normalizeOrigin(candidate);
+  if (normalized) {
+    allowedOrigins.add(normalized);
+  }
+}
+
+for (const origin of configuredOrigins) {
+  addAllowedOrigin(origin);
+}
+
+addAllowedOrigin(process.env.CLIENT_ORIGIN);
+addAllowedOrigin('http://localhost:5173');
+addAllowedOrigin('http://127.0.0.1:5173');
+addAllowedOrigin('http://localhost:4173');
+addAllowedOrigin('http://127.0.0.1:4173');
+addAllowedOrigin('https://meme-game-client.vercel.app');
+addAllowedOrigin('https://meme-game.vercel.app');
+
+const vercelProjectUrl = process.env.VERCEL_PROJECT_PRODUCTION_URL || process.env.VERCEL_URL;
+if (vercelProjectUrl) {
+  const vercelOrigin = normalizeOrigin(`https://${vercelProjectUrl}`);
+  if (vercelOrigin) {
+    const { host } = new URL(vercelOrigin);
+
+    const derivedHosts = new Set<string>();
+    if (host.includes('-server.')) {
+      derivedHosts.add(host.replace('-server.', '-client.'));
+      derivedHosts.add(host.replace('-server.', ''));
+    }
+    if (host.includes('-server-')) {
+      derivedHosts.add(host.replace('-server-', '-client-'));
+      derivedHosts.add(host.replace('-server-', '-'));
+    }
+
+    for (const derivedHost of derivedHosts) {
+      addAllowedOrigin(`https://${derivedHost}`);
+    }
+  }
+}
+
+function resolveAllowedOrigin(originHeader: string | undefined | null): string | null {
+  if (!originHeader) {
+    return allowAllOrigins ? '*' : null;
+  }
+
+  const normalized = normalizeOrigin(originHeader);
+  if (!normalized) {
+    return null;
+  }
+
+  if (allowAllOrigins || allowedOrigins.has(normalized)) {
+    return normalized;
+  }
+
+  return null;
+}
+
+const corsOptions: cors.CorsOptions = {
+  origin(origin, callback) {
+    if (!origin) {
+      callback(null, true);
+      return;
+    }
+
+    const normalized = resolveAllowedOrigin(origin);
+    if (normalized) {
+      callback(null, true);
+      return;
+    }
+
+    callback(new Error('CORS origin not allowed'));
+  },
+  methods: ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'Origin'],
+  credentials: false,
+  optionsSuccessStatus: 204
+};
+
+function withDefaults(input: Partial<LobbySettings>): LobbySettings {
+  return {
+    ...input,
+    rounds: input.rounds ?? 5,
+    theme: isKnownTheme(input.theme) ? input.theme : DEFAULT_THEME,
+    maxPlayers: input.maxPlayers ?? 5
+  };
+}
+
+function reportError(error: unknown) {
+  // eslint-disable-next-line no-console
+  console.error('Lobby action failed', error);
+}
+
+// REST errors carry the same `{ code, message, details }` shape as socket failures.
+function sendError(res: Response, status: number, error: GameError) {
+  res.status(status).json(error);
+}
+
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+const LOBBY_BROWSER_ROOM = 'lobby-browser';
+/** Listing changes within this window reach lobby browsers as one update. */
+const LOBBY_BROWSER_REFRESH_MS = 1000;
+
+type PlayerAction = Exclude<LobbyAction, { type: 'join' | 'disconnect' | 'reattach' | 'summary' }>;
+
+export interface GameServerOptions {
+  gameManager?: GameManager;
+  packStore?: MemePackStore;
+  promptPacks?: PromptPackStore;
+  archive?: GameArchive;
+  profiles?: ProfileStore;
+  leaderboards?: LeaderboardStore;
+  transport?: ClusterTransport;
+  sessions?: SessionSigner;
+  instanceId?: string;
+}
+
+export function createGameServer(options: GameServerOptions = {}) {
+  const gameManager = options.gameManager ?? defaultGameManager;
+  const packStore = options.packStore ?? memePackStore;
+  const promptPacks = options.promptPacks ?? promptPackStore;
+  const archive = options.archive ?? gameArchive;
+  const profiles = options.profiles ?? profileStore;
+  const leaderboards = options.leaderboards ?? leaderboardStore;
+  const transport = options.transport ?? new InMemoryClusterTransport();
+  const sessions = options.sessions ?? createSessionSigner();
+  const gateway = new LobbyGateway(gameManager, transport, options.instanceId);
+  const app = express();
+
+  app.use(cors(corsOptions));
+  app.options('*', cors(corsOptions));
+
+  app.use((req, res, next) => {
+    const allowedOrigin = resolveAllowedOrigin(req.headers.origin || req.headers.referer);
+    if (allowedOrigin) {
+      res.header('Access-Control-Allow-Origin', allowedOrigin === '*' && req.headers.origin ? req.headers.origin : allowedOrigin);
+    }
+
+    res.header('Vary', 'Origin');
+    res.header('Access-Control-Allow-Methods', 'GET,HEAD,PUT,PATCH,POST,DELETE,OPTIONS');
+
+    const requestedHeaders = req.header('Access-Control-Request-Headers');
+    if (requestedHeaders) {
+      res.header('Access-Control-Allow-Headers', requestedHeaders);
+    } else {
+      res.header('Access-Control-Allow-Headers', 'Content-Type,Authorization,Accept,Origin');
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(204);
+      return;
+    }
+
+    next();
+  });
+
+  // Registered ahead of the default JSON parser, which would reject pack uploads for their size.
+  app.post(
+    '/api/packs',
+    express.json({ limit: Math.ceil(MAX_PACK_BYTES * 1.4) }),
+    express.raw({ type: ['application/zip', 'application/x-zip-compressed', 'application/octet-stream'], limit: MAX_PACK_BYTES }),
+    async (req, res) => {
+      try {
+        let result;
+        if (Buffer.isBuffer(req.body)) {
+          result = await packStore.createFromZip(req.body);
+        } else {
+          const manifest = parsePayload(memePackManifestSchema, req.body);
+          if (!manifest.ok) {
+            sendError(res, 400, manifest.error);
+            return;
+          }
+          result = await packStore.createFromManifest(manifest.data);
+        }
+        if (!result.pack) {
+          const error = gameError(undefined, GameErrorCode.InvalidMemePack);
+          sendError(res, 400, { ...error, message: result.error ?? error.message });
+          return;
+        }
+        res.status(201).json(await packStore.getSummary(result.pack.id));
+      } catch (error) {
+        reportError(error);
+        sendError(res, 500, gameError(undefined, GameErrorCode.Internal));
+      }
+    }
+  );
+
+  app.use(express.json());
+
+  app.use((err: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (err instanceof Error && err.message === 'CORS origin not allowed') {
+      const allowedOrigin = resolveAllowedOrigin(req.headers.origin || req.headers.referer);
+      if (allowedOrigin) {
+        res.header('Access-Control-Allow-Origin', allowedOrigin === '*' && req.headers.origin ? req.headers.origin : allowedOrigin);
+      }
+      res.header('Vary', 'Origin');
+      sendError(res, 403, gameError(undefined, GameErrorCode.OriginNotAllowed));
+      return;
+    }
+    // Bodies that are not even JSON get the same answer as ones that fail their schema.
+    if (err instanceof SyntaxError && (err as { type?: string }).type === 'entity.parse.failed') {
+      sendError(res, 400, gameError(undefined, GameErrorCode.InvalidPayload));
+      return;
+    }
+    next(err);
+  });
+
+  const server = http.createServer(app);
+  const io = new Server<ClientToServerEvents, ServerToClientEvents>(server, {
+    cors: allowAllOrigins
+      ? {
+          origin: '*'
+        }
+      : {
+          origin: Array.from(allowedOrigins)
+        }
+  });
+
+  const socketToPlayer = new Map<string, { lobbyId: string; playerId: string }>();
+
+  gateway.setLocalEmitter((socketId, event, ...args) => {
+    const socket = io.sockets.sockets.get(socketId);
+    if (!socket) return false;
+    socket.emit(event, ...args);
+    return true;
+  });
+
+  gateway.setLocalSockets(() => [...socketToPlayer].map(([socketId, ref]) => ({ socketId, ...ref })));
+
+  gameManager.onGameFinished((game) => {
+    archive.save(game).catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to archive game ${game.gameId}`, error);
+    });
+    profiles.recordGame(game).catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to update profile stats for game ${game.gameId}`, error);
+    });
+    leaderboards.recordGame(game).catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to update leaderboards for game ${game.gameId}`, error);
+    });
+  });
+
+  let browserRefresh: NodeJS.Timeout | undefined;
+  gateway.onListingsChange(() => {
+    if (browserRefresh) return;
+    browserRefresh = setTimeout(() => {
+      browserRefresh = undefined;
+      if (!io.sockets.adapter.rooms.get(LOBBY_BROWSER_ROOM)?.size) return;
+      gateway
+        .listLobbies()
+        .then((lobbies) => io.to(LOBBY_BROWSER_ROOM).emit('lobbies:list', lobbies))
+        .catch(reportError);
+    }, LOBBY_BROWSER_REFRESH_MS);
+  });
+
+  app.post('/api/lobbies', async (req, res) => {
+    const body = parsePayload(createLobbyRequestSchema, req.body);
+    if (!body.ok) {
+      sendError(res, 400, body.error);
+      return;
+    }
+    const { name, avatar, profileToken, password, inviteOnly, ...requested } = body.data;
+    const profileId = profileToken ? sessions.verifyProfile(profileToken) : undefined;
+
+    try {
+      const { lobby, host } = await gateway.createLobby(withDefaults(requested), { password, inviteOnly }, { name, avatar, profileId });
+      res.json({
+        lobbyId: lobby.id,
+        code: lobby.code,
+        playerId: host.id,
+        sessionToken: sessions.issue(lobby.id, host.id),
+        settings: lobby.settings,
+        host: {
+          id: host.id,
+          name: host.name,
+          avatar: host.avatar
+        }
+      });
+    } catch (error) {
+      reportError(error);
+      sendError(res, 503, gameError(requested.locale, GameErrorCode.LobbyUnavailable));
+    }
+  });
+
+  app.get('/api/lobbies', async (req, res) => {
+    try {
+      res.json(await gateway.listLobbies());
+    } catch (error) {
+      reportError(error);
+      sendError(res, 503, gameError(undefined, GameErrorCode.LobbyUnavailable));
+    }
+  });
+
+  app.post('/api/lobbies/quick-match', async (req, res) => {
+    const body = parsePayload(quickMatchRequestSchema, req.body);
+    if (!body.ok) {
+      sendError(res, 400, body.error);
+      return;
+    }
+    const { name, avatar, profileToken, theme, locale } = body.data;
+    try {
+      const lobbyId = await gateway.findQuickMatch({ theme, locale });
+      if (lobbyId) {
+        res.json({ lobbyId, created: false } satisfies QuickMatchResponse);
+        return;
+      }
+      const profileId = profileToken ? sessions.verifyProfile(profileToken) : undefined;
+      const { lobby, host } = await gateway.createLobby(withDefaults({ theme, locale }), {}, { name, avatar, profileId });
+      res.json({ lobbyId: lobby.id, created: true, sessionToken: sessions.issue(lobby.id, host.id) } satisfies QuickMatchResponse);
+    } catch (error) {
+      reportError(error);
+      sendError(res, 503, gameError(locale, GameErrorCode.LobbyUnavailable));
+    }
+  });
+
+  app.get('/api/packs/:packId', async (req, res) => {
+    try {
+      const summary = await packStore.getSummary(req.params.packId);
+      if (!summary) {
+        sendError(res, 404, gameError(undefined, GameErrorCode.NotFound, { packId: req.params.packId }));
+        return;
+      }
+      res.json(summary);
+    } catch (error) {
+      reportError(error);
+      sendError(res, 500, gameError(undefined, GameErrorCode.Internal));
+    }
+  });
+
+  app.get('/api/packs/:packId/memes/:memeId', async (req, res) => {
+    try {
+      const file = await packStore.imagePath(req.params.packId, req.params.memeId);
+      if (!file) {
+        sendError(res, 404, gameError(undefined, GameErrorCode.NotFound, { packId: req.params.packId, memeId: req.params.memeId }));
+        return;
+      }
+      res.sendFile(file, { maxAge: '7d', immutable: true });
+    } catch (error) {
+      reportError(error);
+      sendError(res, 500, gameError(undefined, GameErrorCode.Internal));
+    }
+  });
+
+  app.get('/api/themes', (req, res) => {
+    res.json(THEMES);
+  });
+
+  app.post('/api/prompt-packs', async (req, res) => {
+    try {
+      const body = parsePayload(createPromptPackRequestSchema, req.body);
+      if (!body.ok) {
+        sendError(res, 400, body.error);
+        return;
+      }
+      const result = await promptPacks.create(body.data);
+      if (!result.pack) {
+        const error = gameError(undefined, GameErrorCode.InvalidPromptPack);
+        sendError(res, 400, { ...error, message: result.error ?? error.message });
+        return;
+      }
+      res.status(201).json(summarizePromptPack(result.pack));
+    } catch (error) {
+      reportError(error);
+      sendError(res, 500, gameError(undefined, GameErrorCode.Internal));
+    }
+  });
+
+  app.get('/api/prompt-packs/:packId', async (req, res) => {
+    try {
+      const pack = await promptPacks.get(req.params.packId);
+      if (!pack) {
+        sendError(res, 404, gameError(undefined, GameErrorCode.NotFound, { promptPackId: req.params.packId }));
+        return;
+      }
+      res.json(pack);
+    } catch (error) {
+      reportError(error);
+      sendError(res, 500, gameError(undefined, GameErrorCode.Internal));
+    }
+  });
+
+  app.get('/api/lobbies/:lobbyId', async (req, res) => {
+    try {
+      const summary = await gateway.dispatch(req.params.lobbyId, { type: 'summary' });
+      if (!summary) {
+        if (await gateway.wasClosed(req.params.lobbyId)) {
+          sendError(res, 410, gameError(undefined, GameErrorCode.LobbyClosed));
+          return;
+        }
+        sendError(res, 404, gameError(undefined, GameErrorCode.LobbyNotFound));
+        return;
+      }
+      // Anyone holding the link can ask; who is inside a private lobby is for its members to see.
+      if (summary.hasPassword || summary.inviteOnly) {
+        const { players, ...rest } = summary;
+        res.json(rest);
+        return;
+      }
+      res.json(summary);
+    } catch (error) {
+      reportError(error);
+      sendError(res, 503, gameError(undefined, GameErrorCode.LobbyUnavailable));
+    }
+  });
+
+  app.post('/api/profiles', async (req, res) => {
+    try {
+      const body = parsePayload(createProfileRequestSchema, req.body);
+      if (!body.ok) {
+        sendError(res, 400, body.error);
+        return;
+      }
+      const profile = await profiles.create(body.data);
+      res.json({ profile, profileToken: sessions.issueProfile(profile.id) } satisfies CreateProfileResponse);
+    } catch (error) {
+      reportError(error);
+      sendError(res, 500, gameError(undefined, GameErrorCode.Internal));
+    }
+  });
+
+  app.get('/api/profiles/:profileId', async (req, res) => {
+    try {
+      const profile = await profiles.get(req.params.profileId);
+      if (!profile) {
+        sendError(res, 404, gameError(undefined, GameErrorCode.NotFound, { profileId: req.params.profileId }));
+        return;
+      }
+      res.json(profile);
+    } catch (error) {
+      reportError(error);
+      sendError(res, 500, gameError(undefined, GameErrorCode.Internal));
+    }
+  });
+
+  app.get('/api/leaderboards', async (_req, res) => {
+    try {
+      res.json((await leaderboards.read()) satisfies LeaderboardsResponse);
+    } catch (error) {
+      reportError(error);
+      sendError(res, 500, gameError(undefined, GameErrorCode.Internal));
+    }
+  });
+
+  app.get('/api/lobbies/:lobbyId/games', async (req, res) => {
+    try {
+      res.json(await archive.listForLobby(req.params.lobbyId));
+    } catch (error) {
+      reportError(error);
+      sendError(res, 500, gameError(undefined, GameErrorCode.Internal));
+    }
+  });
+
+  app.get('/api/games/:gameId', async (req, res) => {
+    try {
+      const game = await archive.get(req.params.gameId);
+      if (!game) {
+        sendError(res, 404, gameError(undefined, GameErrorCode.NotFound, { gameId: req.params.gameId }));
+        return;
+      }
+      res.json(game);
+    } catch (error) {
+      reportError(error);
+      sendError(res, 500, gameError(undefined, GameErrorCode.Internal));
+    }
+  });
+
+  app.get('/api/join-codes/:code', async (req, res) => {
+    try {
+      const code = joinCodeSchema.safeParse(req.params.code);
+      const lobbyId = code.success ? await gateway.resolveCode(code.data) : undefined;
+      const summary = lobbyId ? await gateway.dispatch(lobbyId, { type: 'summary' }) : null;
+      if (!lobbyId || !summary) {
+        sendError(res, 404, gameError(undefined, GameErrorCode.LobbyNotFound, { code: req.params.code }));
+        return;
+      }
+      if (summary.inviteOnly) {
+        sendError(res, 403, gameError(summary.settings.locale, GameErrorCode.InviteOnly));
+        return;
+      }
+      res.json({ lobbyId });
+    } catch (error) {
+      reportError(error);
+      sendError(res, 503, gameError(undefined, GameErrorCode.LobbyUnavailable));
+    }
+  });
+
+  // Clients that pass an ack callback get the result there; otherwise failures arrive as `lobby:error`.
+  const reply = (socket: GameSocket, callback: ActionCallback | undefined, result: ActionResult) => {
+    if (typeof callback === 'function') {
+      callback(result);
+    } else if (!result.ok) {
+      socket.emit('lobby:error', result.error);
+    }
+  };
+
+  const runAction = (socket: GameSocket, callback: ActionCallback | undefined, build: (playerId: string) => PlayerAction) => {
+    const ref = socketToPlayer.get(socket.id);
+    if (!ref) {
+      reply(socket, callback, { ok: false, error: gameError(undefined, GameErrorCode.NotInLobby) });
+      return;
+    }
+    gateway
+      .dispatch(ref.lobbyId, build(ref.playerId))
+      .then((result) => reply(socket, callback, result))
+      .catch((error) => {
+        reportError(error);
+        reply(socket, callback, { ok: false, error: gameError(undefined, GameErrorCode.LobbyUnavailable) });
+      });
+  };
+
+  // Validates the payload before anything reaches the game manager; a bad one is answered with
+  // INVALID_PAYLOAD and never dispatched.
+  const validated =
+    <T>(socket: GameSocket, schema: ZodType<T, ZodTypeDef, unknown>, build: (playerId: string, data: T) => PlayerAction) =>
+    (payload: unknown, callback?: unknown) => {
+      const ack = typeof callback === 'function' ? (callback as ActionCallback) : undefined;
+      const parsed = parsePayload(schema, payload);
+      if (!parsed.ok) {
+        reply(socket, ack, parsed);
+        return;
+      }
+      runAction(socket, ack, (playerId) => build(playerId, parsed.data));
+    };
+
+  io.on('connection', (socket) => {
+    socket.on('player:join', (payload: unknown, callback: unknown) => {
+      if (typeof callback !== 'function') return;
+      const parsed = parsePayload(joinLobbyRequestSchema, payload);
+      if (!parsed.ok) {
+        callback({ ok: false, lobbyId: '', playerId: '', spectator: true, message: parsed.error.message, error: parsed.error });
+        return;
+      }
+      const request = parsed.data;
+      const { lobbyId } = request;
+      // Only a token signed for this lobby reclaims a seat; without one the socket joins as someone new.
+      let existingId: string | undefined;
+      if (request.sessionToken) {
+        const session = sessions.verify(request.sessionToken);
+        if (!session || session.lobbyId !== lobbyId) {
+          const failure = gameError(request.locale, GameErrorCode.InvalidSession);
+          callback({ ok: false, lobbyId, playerId: '', spectator: true, message: failure.message, error: failure });
+          return;
+        }
+        existingId = session.playerId;
+      }
+      // Profiles are optional: a token that does not verify just leaves the seat unlinked.
+      const profileId = request.profileToken ? sessions.verifyProfile(request.profileToken) : undefined;
+      gateway
+        .dispatch(lobbyId, { type: 'join', socketId: socket.id, request, playerId: existingId, profileId })
+        .then((response) => {
+          if (!response.ok) {
+            callback(response);
+            return;
+          }
+          socketToPlayer.set(socket.id, { lobbyId, playerId: response.playerId });
+          callback({ ...response, sessionToken: sessions.issue(lobbyId, response.playerId) });
+        })
+        .catch((error) => {
+          reportError(error);
+          const failure = gameError(request.locale, GameErrorCode.LobbyUnavailable);
+          callback({ ok: false, lobbyId, playerId: existingId ?? '', spectator: true, message: failure.message, error: failure });
+        });
+    });
+
+    socket.on(
+      'player:updateName',
+      validated(socket, playerNameSchema, (playerId, name) => ({ type: 'updateName', playerId, name }))
+    );
+
+    socket.on(
+      'player:updateAvatar',
+      validated(socket, playerAvatarSchema, (playerId, avatar) => ({ type: 'updateAvatar', playerId, avatar }))
+    );
+
+    socket.on(
+      'game:updateSettings',
+      validated(socket, updateSettingsPayloadSchema, (playerId, payload) => ({ type: 'updateSettings', playerId, settings: payload.settings }))
+    );
+
+    socket.on('game:start', (callback?: unknown) => {
+      runAction(socket, typeof callback === 'function' ? (callback as ActionCallback) : undefined, (playerId) => ({ type: 'start', playerId }));
+    });
+
+    socket.on(
+      'submission:submit',
+      validated(socket, submitMemePayloadSchema, (playerId, payload) => ({ type: 'submitMeme', playerId, payload }))
+    );
+
+    socket.on(
+      'vote:submit',
+      validated(socket, submitVotePayloadSchema, (playerId, payload) => ({ type: 'submitVote', playerId, payload }))
+    );
+
+    socket.on(
+      'host:kick',
+      validated(socket, kickPlayerPayloadSchema, (playerId, payload) => ({
+        type: 'kick',
+        playerId,
+        targetId: payload.playerId,
+        ban: payload.ban ?? false
+      }))
+    );
+
+    socket.on(
+      'host:transfer',
+      validated(socket, transferHostPayloadSchema, (playerId, payload) => ({ type: 'transferHost', playerId, targetId: payload.playerId }))
+    );
+
+    socket.on(
+      'host:lock',
+      validated(socket, lockLobbyPayloadSchema, (playerId, payload) => ({ type: 'lock', playerId, locked: payload.locked }))
+    );
+
+    socket.on(
+      'host:setSpectator',
+      validated(socket, setSpectatorPayloadSchema, (playerId, payload) => ({
+        type: 'setSpectator',
+        playerId,
+        targetId: payload.playerId,
+        spectator: payload.spectator
+      }))
+    );
+
+    socket.on(
+      'host:pause',
+      validated(socket, pausePhasePayloadSchema, (playerId, payload) => ({ type: 'pause', playerId, paused: payload.paused }))
+    );
+
+    socket.on('host:skip', (callback?: unknown) => {
+      runAction(socket, typeof callback === 'function' ? (callback as ActionCallback) : undefined, (playerId) => ({ type: 'skip', playerId }));
+    });
+
+    socket.on(
+      'host:extend',
+      validated(socket, extendPhasePayloadSchema, (playerId, payload) => ({ type: 'extend', playerId, seconds: payload.seconds }))
+    );
+
+    socket.on('host:endGame', (callback?: unknown) => {
+      runAction(socket, typeof callback === 'function' ? (callback as ActionCallback) : undefined, (playerId) => ({ type: 'endGame', playerId }));
+    });
+
+    socket.on(
+      'game:rematch',
+      validated(socket, rematchPayloadSchema, (playerId, payload) => ({ type: 'rematch', playerId, payload }))
+    );
+
+    socket.on('lobbies:watch', () => {
+      socket.join(LOBBY_BROWSER_ROOM);
+      gateway
+        .listLobbies()
+        .then((lobbies) => socket.emit('lobbies:list', lobbies))
+        .catch(reportError);
+    });
+
+    socket.on('lobbies:unwatch', () => {
+      socket.leave(LOBBY_BROWSER_ROOM);
+    });
+
+    socket.on('player:leave', (callback?: ActionCallback) => {
+      const ref = socketToPlayer.get(socket.id);
+      if (typeof callback === 'function') callback({ ok: true });
+      if (!ref) return;
+      socketToPlayer.delete(socket.id);
+      gateway.dispatch(ref.lobbyId, { type: 'disconnect', socketId: socket.id }).catch(reportError);
+    });
+
+    socket.on('disconnect', () => {
+      const ref = socketToPlayer.get(socket.id);
+      if (!ref) return;
+      socketToPlayer.delete(socket.id);
+      gateway.dispatch(ref.lobbyId, { type: 'disconnect', socketId: socket.id }).catch(reportError);
+    });
+  });
+
+  return {
+    app,
+    server,
+    io,
+    gateway,
+    start: () => gateway.start(),
+    async close() {
+      clearTimeout(browserRefresh);
+      io.close();
+      await gateway.close();
+    }
+  };
+}
+
+export type GameServer = ReturnType<typeof createGameServer>;
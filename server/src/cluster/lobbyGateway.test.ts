@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GameManager } from '../game/gameManager.js';
+import { InMemoryLobbyStore } from '../game/lobbyStore.js';
+import { LobbyGateway, OWNER_TTL_MS } from './lobbyGateway.js';
+import { InMemoryClusterTransport } from './transport.js';
+
+const SETTINGS = { rounds: 5, theme: 'fun', maxPlayers: 5 };
+
+const joinAs = (lobbyId: string, name: string) =>
+  ({ type: 'join', socketId: `socket-${name}`, request: { lobbyId, name, avatar: '🐶' } }) as const;
+
+// Two instances in one process: each has its own game manager, and they share the lobby store and transport.
+function createCluster() {
+  const store = new InMemoryLobbyStore();
+  const transport = new InMemoryClusterTransport();
+  const instance = (instanceId: string) => new LobbyGateway(new GameManager(undefined, store), transport, instanceId);
+  return { transport, a: instance('a'), b: instance('b') };
+}
+
+describe('LobbyGateway', () => {
+  const gateways: LobbyGateway[] = [];
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    for (const gateway of gateways.splice(0)) {
+      await gateway.close();
+    }
+  });
+
+  async function start() {
+    const cluster = createCluster();
+    gateways.push(cluster.a, cluster.b);
+    await cluster.a.start();
+    await cluster.b.start();
+    return cluster;
+  }
+
+  it('forwards actions for a lobby to the instance that owns it', async () => {
+    const { transport, a, b } = await start();
+    const { lobby, host } = await a.createLobby(SETTINGS, {}, { name: 'Host' });
+
+    const join = await b.dispatch(lobby.id, joinAs(lobby.id, 'Guest'));
+    expect(join.ok).toBe(true);
+
+    const summary = await b.dispatch(lobby.id, { type: 'summary' });
+    expect(await transport.getOwner(lobby.id)).toBe('a');
+    expect(summary?.hostId).toBe(host.id);
+    expect(summary?.players.map((player) => player.name)).toEqual(['Host', 'Guest']);
+  });
+
+  it('hands a lobby over when its owner shuts down', async () => {
+    const { transport, a, b } = await start();
+    const { lobby } = await a.createLobby(SETTINGS, {}, { name: 'Host' });
+    await a.close();
+
+    const summary = await b.dispatch(lobby.id, { type: 'summary' });
+    expect(summary?.lobbyId).toBe(lobby.id);
+    expect(await transport.getOwner(lobby.id)).toBe('b');
+  });
+
+  it('keeps serving players connected elsewhere after the owner goes away', async () => {
+    const { transport, a, b } = await start();
+    const { lobby } = await a.createLobby(SETTINGS, {}, { name: 'Host' });
+    const join = await b.dispatch(lobby.id, joinAs(lobby.id, 'Guest'));
+    // The guest's socket lives on instance b.
+    const states: unknown[] = [];
+    b.setLocalEmitter((socketId, event, ...args) => {
+      if (socketId !== 'socket-Guest') return false;
+      if (event === 'lobby:state') states.push(args[0]);
+      return true;
+    });
+    b.setLocalSockets(() => [{ socketId: 'socket-Guest', lobbyId: lobby.id, playerId: join.playerId }]);
+
+    await a.close();
+
+    await vi.waitFor(() => expect(states).not.toHaveLength(0));
+    expect(await transport.getOwner(lobby.id)).toBe('b');
+    const summary = await b.dispatch(lobby.id, { type: 'summary' });
+    expect(summary?.players.find((player) => player.id === join.playerId)?.connected).toBe(true);
+  });
+
+  it('takes over a lobby whose owner stopped renewing its claim', async () => {
+    const { transport, a, b } = await start();
+    const { lobby } = await a.createLobby(SETTINGS, {}, { name: 'Host' });
+
+    // A crashed instance never releases its claim; it only stops renewing it.
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + OWNER_TTL_MS + 1);
+
+    const join = await b.dispatch(lobby.id, joinAs(lobby.id, 'Guest'));
+    expect(join.ok).toBe(true);
+    expect(await transport.getOwner(lobby.id)).toBe('b');
+    expect(await b.resolveCode(lobby.code)).toBe(lobby.id);
+  });
+});
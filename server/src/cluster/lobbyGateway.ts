@@ -0,0 +1,481 @@
+import { randomUUID } from 'node:crypto';
+import {
+  ActionResult,
+  GameErrorCode,
+  JoinLobbyRequest,
+  JoinLobbyResponse,
+  LobbySettings,
+  PublicLobby,
+  QuickMatchRequest,
+  RematchPayload,
+  ServerToClientEvents,
+  SubmitMemePayload,
+  SubmitVotePayload
+} from '../../../shared/types.js';
+import { GameManager, LobbySummary } from '../game/gameManager.js';
+import { generateJoinCode, hashPassword } from '../game/lobbyAccess.js';
+import { ActionFailure, HostProfile, LobbyState, PlayerState } from '../game/types.js';
+import { gameError, translate } from '../i18n.js';
+import { ClusterMessage, ClusterTransport } from './transport.js';
+
+// A join carries `playerId` and `profileId` only once the caller has verified the request's tokens.
+export type LobbyAction =
+  | { type: 'join'; socketId: string; request: JoinLobbyRequest; playerId?: string; profileId?: string }
+  | { type: 'updateName'; playerId: string; name: string }
+  | { type: 'updateAvatar'; playerId: string; avatar: string }
+  | { type: 'updateSettings'; playerId: string; settings: LobbySettings }
+  | { type: 'start'; playerId: string }
+  | { type: 'submitMeme'; playerId: string; payload: SubmitMemePayload }
+  | { type: 'submitVote'; playerId: string; payload: SubmitVotePayload }
+  | { type: 'kick'; playerId: string; targetId: string; ban: boolean }
+  | { type: 'transferHost'; playerId: string; targetId: string }
+  | { type: 'lock'; playerId: string; locked: boolean }
+  | { type: 'setSpectator'; playerId: string; targetId: string; spectator: boolean }
+  | { type: 'pause'; playerId: string; paused: boolean }
+  | { type: 'skip'; playerId: string }
+  | { type: 'extend'; playerId: string; seconds: number }
+  | { type: 'endGame'; playerId: string }
+  | { type: 'rematch'; playerId: string; payload: RematchPayload }
+  | { type: 'disconnect'; socketId: string }
+  | { type: 'reattach'; socketId: string; playerId: string }
+  | { type: 'summary' };
+
+export type LobbyActionResult<A extends LobbyAction> = A extends { type: 'join' }
+  ? JoinLobbyResponse
+  : A extends { type: 'summary' }
+    ? LobbySummary | null
+    : A extends { type: 'disconnect' } | { type: 'reattach' }
+      ? null
+      : ActionResult;
+
+type ServerEvent = keyof ServerToClientEvents;
+type ServerEventArgs<E extends ServerEvent> = Parameters<ServerToClientEvents[E]>;
+
+/** Emits to a socket connected to this instance; returns false when the socket lives elsewhere. */
+export type LocalEmitter = <E extends ServerEvent>(socketId: string, event: E, ...args: ServerEventArgs<E>) => boolean;
+
+/** The seats held by sockets connected to this instance. */
+export type LocalSocketLister = () => Array<{ socketId: string; lobbyId: string; playerId: string }>;
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const REQUEST_TIMEOUT_MS = 5000;
+/** How long an ownership claim lasts without renewal; owners renew well within it. */
+export const OWNER_TTL_MS = 15_000;
+const OWNER_RENEW_MS = OWNER_TTL_MS / 3;
+/** Attempts per code length before falling back to a longer code. */
+const CODE_ATTEMPTS = 8;
+
+/**
+ * Routes lobby actions to the instance that owns the lobby and fans state updates out to
+ * whichever instance holds each player's socket.
+ */
+export class LobbyGateway {
+  readonly instanceId: string;
+  private owned = new Set<string>();
+  private pending = new Map<string, PendingRequest>();
+  private unsubscribers: Array<() => Promise<void>> = [];
+  private emitLocal: LocalEmitter = () => false;
+  private localSockets: LocalSocketLister = () => [];
+  /** Last listing published per owned lobby, as JSON, so unchanged state is not rewritten. */
+  private listings = new Map<string, string>();
+  private listingListeners = new Set<() => void>();
+  private renewTimer?: NodeJS.Timeout;
+
+  constructor(private gameManager: GameManager, private transport: ClusterTransport, instanceId?: string) {
+    this.instanceId = instanceId ?? randomUUID();
+  }
+
+  setLocalEmitter(emitter: LocalEmitter) {
+    this.emitLocal = emitter;
+  }
+
+  setLocalSockets(lister: LocalSocketLister) {
+    this.localSockets = lister;
+  }
+
+  async start(): Promise<number> {
+    this.unsubscribers.push(
+      await this.transport.subscribe(`instance:${this.instanceId}`, (message) => this.handleInstanceMessage(message)),
+      await this.transport.subscribe('emit', (message) => this.handleEmit(message)),
+      await this.transport.subscribe('listings', () => this.listingListeners.forEach((listener) => listener())),
+      await this.transport.subscribe('rebind', (message) => {
+        this.reattach((message as { lobbyId: string }).lobbyId).catch(() => undefined);
+      })
+    );
+    const stopListening = this.gameManager.onStateChange((lobbyId) => {
+      this.broadcastLobby(lobbyId);
+      this.refreshListing(lobbyId);
+    });
+    const stopExpiring = this.gameManager.onLobbyExpired((lobby) => {
+      this.retire(lobby).catch(() => undefined);
+    });
+    this.unsubscribers.push(async () => {
+      stopListening();
+      stopExpiring();
+    });
+
+    const restored = await this.gameManager.restore();
+    for (const lobbyId of restored) {
+      const owner = await this.transport.claimOwner(lobbyId, this.instanceId, OWNER_TTL_MS);
+      if (owner === this.instanceId) {
+        this.owned.add(lobbyId);
+        await this.restoreCode(lobbyId);
+        this.refreshListing(lobbyId);
+      } else {
+        this.gameManager.unload(lobbyId);
+      }
+    }
+    this.renewTimer = setInterval(() => {
+      this.renewOwnership()
+        .then(() => this.adoptOrphans())
+        .catch(() => undefined);
+    }, OWNER_RENEW_MS);
+    return this.owned.size;
+  }
+
+  async createLobby(
+    settings: LobbySettings,
+    options: { password?: string; inviteOnly?: boolean } = {},
+    profile: HostProfile = {}
+  ): Promise<{ lobby: LobbyState; host: PlayerState }> {
+    const id = randomUUID();
+    const code = await this.reserveCode(id);
+    // Claimed before the lobby exists, so a failure leaves nothing half-created behind.
+    try {
+      await this.transport.claimOwner(id, this.instanceId, OWNER_TTL_MS);
+    } catch (error) {
+      await this.transport.releaseCode(code, id).catch(() => undefined);
+      throw error;
+    }
+    const result = this.gameManager.createLobby(
+      settings,
+      {
+        id,
+        code,
+        passwordHash: options.password ? hashPassword(options.password) : undefined,
+        inviteOnly: Boolean(options.inviteOnly)
+      },
+      profile
+    );
+    this.owned.add(id);
+    return result;
+  }
+
+  /** Looks up the lobby a normalized join code points at, whichever instance owns it. */
+  resolveCode(code: string): Promise<string | undefined> {
+    return this.transport.resolveCode(code);
+  }
+
+  /** Open public lobbies across every instance, ones still gathering players first. */
+  async listLobbies(): Promise<PublicLobby[]> {
+    const listings = await this.transport.getListings();
+    return listings.sort(
+      (a, b) => Number(b.phase === 'lobby') - Number(a.phase === 'lobby') || b.players - a.players || a.code.localeCompare(b.code)
+    );
+  }
+
+  /**
+   * Picks the open lobby a quick-match player should join: one still in the lobby phase with a
+   * free seat, preferring the requested language and theme, then the fullest so games start sooner.
+   */
+  async findQuickMatch(preferences: Pick<QuickMatchRequest, 'theme' | 'locale'>): Promise<string | undefined> {
+    const score = (listing: PublicLobby) =>
+      (preferences.locale && listing.locale === preferences.locale ? 2 : 0) + (preferences.theme && listing.theme === preferences.theme ? 1 : 0);
+    const candidates = (await this.transport.getListings()).filter(
+      (listing) => listing.phase === 'lobby' && listing.players < listing.maxPlayers
+    );
+    candidates.sort((a, b) => score(b) - score(a) || b.players - a.players);
+    return candidates[0]?.lobbyId;
+  }
+
+  /** True for a lobby that existed but was closed for sitting empty too long. */
+  wasClosed(lobbyId: string): Promise<boolean> {
+    return this.transport.wasClosed(lobbyId);
+  }
+
+  /** Called whenever any instance changes the public listing. */
+  onListingsChange(listener: () => void) {
+    this.listingListeners.add(listener);
+    return () => this.listingListeners.delete(listener);
+  }
+
+  async dispatch<A extends LobbyAction>(lobbyId: string, action: A): Promise<LobbyActionResult<A>> {
+    let owner = this.owned.has(lobbyId) ? this.instanceId : await this.transport.getOwner(lobbyId);
+    // Nobody renewed the claim, so its owner is gone; the lobby moves here if the store still has it.
+    if (!owner) owner = await this.takeOver(lobbyId);
+    // Unknown lobbies run locally so the game manager produces its usual "not found" result.
+    if (!owner || owner === this.instanceId) {
+      return (await this.execute(lobbyId, action)) as LobbyActionResult<A>;
+    }
+    return (await this.request(owner, lobbyId, action)) as LobbyActionResult<A>;
+  }
+
+  async close() {
+    clearInterval(this.renewTimer);
+    for (const unsubscribe of this.unsubscribers.splice(0)) {
+      await unsubscribe();
+    }
+    for (const lobbyId of this.owned) {
+      this.gameManager.unload(lobbyId);
+      if (this.listings.delete(lobbyId)) {
+        await this.transport.setListing(lobbyId, undefined);
+      }
+      await this.transport.releaseOwner(lobbyId, this.instanceId);
+      // Instances with players in this lobby take it over now rather than on their next action.
+      await this.transport.publish('rebind', { lobbyId }).catch(() => undefined);
+    }
+    this.owned.clear();
+    for (const request of this.pending.values()) {
+      clearTimeout(request.timer);
+      request.reject(new Error('Gateway closed'));
+    }
+    this.pending.clear();
+  }
+
+  private async execute(lobbyId: string, action: LobbyAction): Promise<unknown> {
+    switch (action.type) {
+      case 'join': {
+        const { playerId: existingId, profileId } = action;
+        const { name, avatar, spectator, password, locale } = action.request;
+        const joinResult = this.gameManager.joinLobby(lobbyId, { playerId: existingId, name, avatar, spectator, password, profileId });
+        const messageLocale = joinResult.lobby?.settings.locale ?? locale;
+        if (!joinResult.lobby || !joinResult.player) {
+          let code = joinResult.error?.code ?? GameErrorCode.Internal;
+          if (code === GameErrorCode.LobbyNotFound && (await this.transport.wasClosed(lobbyId))) {
+            code = GameErrorCode.LobbyClosed;
+          }
+          const error = gameError(messageLocale, code, joinResult.error?.details);
+          return {
+            ok: false,
+            lobbyId,
+            playerId: existingId ?? '',
+            spectator: true,
+            message: error.message,
+            error
+          } satisfies JoinLobbyResponse;
+        }
+        this.gameManager.markPlayerConnected(lobbyId, joinResult.player.id, action.socketId);
+        return {
+          ok: true,
+          lobbyId,
+          playerId: joinResult.player.id,
+          spectator: joinResult.player.spectator,
+          message: joinResult.notice && translate(messageLocale, joinResult.notice)
+        } satisfies JoinLobbyResponse;
+      }
+      case 'updateName':
+        return this.toResult(lobbyId, this.gameManager.updatePlayerName(lobbyId, action.playerId, action.name));
+      case 'updateAvatar':
+        return this.toResult(lobbyId, this.gameManager.updatePlayerAvatar(lobbyId, action.playerId, action.avatar));
+      case 'updateSettings':
+        return this.toResult(lobbyId, this.gameManager.updateSettings(lobbyId, action.playerId, action.settings));
+      case 'start':
+        return this.toResult(lobbyId, await this.gameManager.startGame(lobbyId, action.playerId));
+      case 'submitMeme':
+        return this.toResult(lobbyId, this.gameManager.submitMeme(lobbyId, action.playerId, action.payload));
+      case 'submitVote':
+        return this.toResult(lobbyId, this.gameManager.submitVote(lobbyId, action.playerId, action.payload));
+      case 'kick': {
+        const socketId = this.gameManager.getLobby(lobbyId)?.players.get(action.targetId)?.socketId;
+        const failure = this.gameManager.kickPlayer(lobbyId, action.playerId, action.targetId, action.ban);
+        if (!failure && socketId) {
+          const locale = this.gameManager.getLobbySummary(lobbyId)?.settings.locale;
+          this.deliver(socketId, 'lobby:kicked', gameError(locale, action.ban ? GameErrorCode.Banned : GameErrorCode.Kicked, { lobbyId }));
+        }
+        return this.toResult(lobbyId, failure);
+      }
+      case 'transferHost':
+        return this.toResult(lobbyId, this.gameManager.transferHost(lobbyId, action.playerId, action.targetId));
+      case 'lock':
+        return this.toResult(lobbyId, this.gameManager.setLocked(lobbyId, action.playerId, action.locked));
+      case 'setSpectator':
+        return this.toResult(lobbyId, this.gameManager.setSpectator(lobbyId, action.playerId, action.targetId, action.spectator));
+      case 'pause':
+        return this.toResult(lobbyId, this.gameManager.setPaused(lobbyId, action.playerId, action.paused));
+      case 'skip':
+        return this.toResult(lobbyId, this.gameManager.skipPhase(lobbyId, action.playerId));
+      case 'extend':
+        return this.toResult(lobbyId, this.gameManager.extendPhase(lobbyId, action.playerId, action.seconds));
+      case 'endGame':
+        return this.toResult(lobbyId, this.gameManager.endGame(lobbyId, action.playerId));
+      case 'rematch':
+        return this.toResult(lobbyId, await this.gameManager.rematch(lobbyId, action.playerId, action.payload));
+      case 'disconnect':
+        this.gameManager.markPlayerDisconnected(action.socketId);
+        return null;
+      case 'reattach': {
+        const player = this.gameManager.getLobby(lobbyId)?.players.get(action.playerId);
+        // A player who already rejoined on another socket keeps that one.
+        if (player && !player.connected) {
+          this.gameManager.markPlayerConnected(lobbyId, action.playerId, action.socketId);
+        }
+        return null;
+      }
+      case 'summary':
+        return this.gameManager.getLobbySummary(lobbyId) ?? null;
+    }
+  }
+
+  private async takeOver(lobbyId: string): Promise<string | undefined> {
+    if (!(await this.gameManager.adopt(lobbyId))) return undefined;
+    const owner = await this.transport.claimOwner(lobbyId, this.instanceId, OWNER_TTL_MS);
+    if (owner !== this.instanceId) {
+      // Another instance took it over first.
+      this.gameManager.unload(lobbyId);
+      return owner;
+    }
+    this.owned.add(lobbyId);
+    await this.restoreCode(lobbyId);
+    this.refreshListing(lobbyId);
+    // The snapshot has nobody connected; sockets still open on other instances claim their seats back.
+    await this.transport.publish('rebind', { lobbyId });
+    return owner;
+  }
+
+  /** Reattaches this instance's sockets for a lobby that just changed hands. */
+  private async reattach(lobbyId: string) {
+    for (const { socketId, playerId } of this.localSockets().filter((socket) => socket.lobbyId === lobbyId)) {
+      await this.dispatch(lobbyId, { type: 'reattach', socketId, playerId });
+    }
+  }
+
+  /** Takes over lobbies whose owner crashed while players here are still connected to them. */
+  private async adoptOrphans() {
+    const lobbyIds = new Set(this.localSockets().map((socket) => socket.lobbyId));
+    for (const lobbyId of lobbyIds) {
+      if (this.owned.has(lobbyId) || (await this.transport.getOwner(lobbyId))) continue;
+      await this.reattach(lobbyId);
+    }
+  }
+
+  /** Keeps every owned lobby's claim alive; one another instance took over during a stall is let go. */
+  private async renewOwnership() {
+    for (const lobbyId of [...this.owned]) {
+      const owner = await this.transport.claimOwner(lobbyId, this.instanceId, OWNER_TTL_MS);
+      if (owner === this.instanceId) continue;
+      this.owned.delete(lobbyId);
+      this.listings.delete(lobbyId);
+      this.gameManager.unload(lobbyId);
+    }
+  }
+
+  private async reserveCode(lobbyId: string): Promise<string> {
+    for (const length of [5, 6]) {
+      for (let attempt = 0; attempt < CODE_ATTEMPTS; attempt += 1) {
+        const code = generateJoinCode(length);
+        if (await this.transport.reserveCode(code, lobbyId)) return code;
+      }
+    }
+    throw new Error(`No free join code for lobby ${lobbyId}`);
+  }
+
+  private async restoreCode(lobbyId: string) {
+    const code = this.gameManager.getLobby(lobbyId)?.code;
+    if (code && (await this.transport.reserveCode(code, lobbyId))) return;
+    this.gameManager.reassignCode(lobbyId, await this.reserveCode(lobbyId));
+  }
+
+  /** Frees everything the cluster holds for an expired lobby and leaves a note that it closed. */
+  private async retire(lobby: LobbyState) {
+    this.owned.delete(lobby.id);
+    if (this.listings.delete(lobby.id)) {
+      await this.transport.setListing(lobby.id, undefined);
+      await this.transport.publish('listings', { lobbyId: lobby.id });
+    }
+    await this.transport.releaseCode(lobby.code, lobby.id);
+    await this.transport.markClosed(lobby.id);
+    await this.transport.releaseOwner(lobby.id, this.instanceId);
+  }
+
+  private refreshListing(lobbyId: string) {
+    if (!this.owned.has(lobbyId)) return;
+    const listing = this.gameManager.getPublicListing(lobbyId);
+    const serialized = listing && JSON.stringify(listing);
+    if (serialized === this.listings.get(lobbyId)) return;
+    if (serialized) {
+      this.listings.set(lobbyId, serialized);
+    } else {
+      this.listings.delete(lobbyId);
+    }
+    this.transport
+      .setListing(lobbyId, listing)
+      .then(() => this.transport.publish('listings', { lobbyId }))
+      .catch(() => undefined);
+  }
+
+  private toResult(lobbyId: string, failure: ActionFailure | undefined): ActionResult {
+    if (!failure) return { ok: true };
+    const locale = this.gameManager.getLobbySummary(lobbyId)?.settings.locale;
+    return { ok: false, error: gameError(locale, failure.code, failure.details) };
+  }
+
+  private request(owner: string, lobbyId: string, action: LobbyAction): Promise<unknown> {
+    const id = randomUUID();
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Lobby ${lobbyId} did not respond`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timer });
+      this.transport
+        .publish(`instance:${owner}`, { kind: 'request', id, replyTo: this.instanceId, lobbyId, action })
+        .catch((error: Error) => {
+          clearTimeout(timer);
+          this.pending.delete(id);
+          reject(error);
+        });
+    });
+  }
+
+  private handleInstanceMessage(message: ClusterMessage) {
+    if (message.kind === 'request') {
+      const { id, replyTo, lobbyId, action } = message as { id: string; replyTo: string; lobbyId: string; action: LobbyAction };
+      this.execute(lobbyId, action)
+        .then((result) => ({ kind: 'reply', id, result }))
+        .catch((error: Error) => ({ kind: 'reply', id, error: error.message }))
+        .then((reply) => this.transport.publish(`instance:${replyTo}`, reply))
+        .catch(() => undefined);
+      return;
+    }
+
+    if (message.kind === 'reply') {
+      const { id, result, error } = message as { id: string; result?: unknown; error?: string };
+      const request = this.pending.get(id);
+      if (!request) return;
+      clearTimeout(request.timer);
+      this.pending.delete(id);
+      if (error) {
+        request.reject(new Error(error));
+      } else {
+        request.resolve(result ?? null);
+      }
+    }
+  }
+
+  private handleEmit(message: ClusterMessage) {
+    const { socketId, event, args } = message as { socketId: string; event: ServerEvent; args: ServerEventArgs<ServerEvent> };
+    this.emitLocal(socketId, event, ...args);
+  }
+
+  private deliver<E extends ServerEvent>(socketId: string, event: E, ...args: ServerEventArgs<E>) {
+    if (this.emitLocal(socketId, event, ...args)) return;
+    this.transport.publish('emit', { socketId, event, args }).catch(() => undefined);
+  }
+
+  private broadcastLobby(lobbyId: string) {
+    const lobby = this.gameManager.getLobby(lobbyId);
+    if (!lobby) return;
+    for (const player of lobby.players.values()) {
+      if (!player.socketId) continue;
+      const state = this.gameManager.getLobbyStateForPlayer(lobbyId, player.id);
+      if (state) {
+        this.deliver(player.socketId, 'lobby:state', state);
+      }
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { Redis } from 'ioredis';
+import { PublicLobby } from '../../../shared/types.js';
+import { CLOSED_LOBBY_MEMORY_MS, ClusterHandler, ClusterMessage, ClusterTransport } from './transport.js';
+
+const RELEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0`;
+// Takes a free key or renews our own; a key held by another instance is left alone until it expires.
+const CLAIM_SCRIPT = `local current = redis.call('get', KEYS[1])
+if not current or current == ARGV[1] then
+  redis.call('set', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return ARGV[1]
+end
+return current`;
+
+export class RedisClusterTransport implements ClusterTransport {
+  private publisher: Redis;
+  private subscriber: Redis;
+  private handlers = new Map<string, Set<ClusterHandler>>();
+
+  constructor(url: string, private prefix = 'meme-game') {
+    this.publisher = new Redis(url);
+    this.subscriber = this.publisher.duplicate();
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      const handlers = this.handlers.get(channel);
+      if (!handlers) return;
+      let message: ClusterMessage;
+      try {
+        message = JSON.parse(raw) as ClusterMessage;
+      } catch (error) {
+        return;
+      }
+      for (const handler of handlers) {
+        handler(message);
+      }
+    });
+  }
+
+  async publish(channel: string, message: ClusterMessage): Promise<void> {
+    await this.publisher.publish(this.channelKey(channel), JSON.stringify(message));
+  }
+
+  async subscribe(channel: string, handler: ClusterHandler): Promise<() => Promise<void>> {
+    const key = this.channelKey(channel);
+    let handlers = this.handlers.get(key);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(key, handlers);
+      await this.subscriber.subscribe(key);
+    }
+    handlers.add(handler);
+    return async () => {
+      handlers?.delete(handler);
+      if (handlers?.size === 0) {
+        this.handlers.delete(key);
+        await this.subscriber.unsubscribe(key);
+      }
+    };
+  }
+
+  async claimOwner(lobbyId: string, instanceId: string, ttlMs: number): Promise<string> {
+    return (await this.publisher.eval(CLAIM_SCRIPT, 1, this.ownerKey(lobbyId), instanceId, ttlMs)) as string;
+  }
+
+  async getOwner(lobbyId: string): Promise<string | undefined> {
+    return (await this.publisher.get(this.ownerKey(lobbyId))) ?? undefined;
+  }
+
+  async releaseOwner(lobbyId: string, instanceId: string): Promise<void> {
+    await this.publisher.eval(RELEASE_SCRIPT, 1, this.ownerKey(lobbyId), instanceId);
+  }
+
+  async reserveCode(code: string, lobbyId: string): Promise<boolean> {
+    const key = this.codeKey(code);
+    await this.publisher.set(key, lobbyId, 'NX');
+    return (await this.publisher.get(key)) === lobbyId;
+  }
+
+  async resolveCode(code: string): Promise<string | undefined> {
+    return (await this.publisher.get(this.codeKey(code))) ?? undefined;
+  }
+
+  async releaseCode(code: string, lobbyId: string): Promise<void> {
+    await this.publisher.eval(RELEASE_SCRIPT, 1, this.codeKey(code), lobbyId);
+  }
+
+  async setListing(lobbyId: string, listing: PublicLobby | undefined): Promise<void> {
+    if (listing) {
+      await this.publisher.hset(this.listingsKey(), lobbyId, JSON.stringify(listing));
+    } else {
+      await this.publisher.hdel(this.listingsKey(), lobbyId);
+    }
+  }
+
+  async getListings(): Promise<PublicLobby[]> {
+    const raw = await this.publisher.hvals(this.listingsKey());
+    return raw.map((value) => JSON.parse(value) as PublicLobby);
+  }
+
+  async markClosed(lobbyId: string): Promise<void> {
+    await this.publisher.set(this.closedKey(lobbyId), '1', 'PX', CLOSED_LOBBY_MEMORY_MS);
+  }
+
+  async wasClosed(lobbyId: string): Promise<boolean> {
+    return (await this.publisher.exists(this.closedKey(lobbyId))) === 1;
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.subscriber.quit(), this.publisher.quit()]);
+  }
+
+  private channelKey(channel: string) {
+    return `${this.prefix}:${channel}`;
+  }
+
+  private ownerKey(lobbyId: string) {
+    return `${this.prefix}:owner:${lobbyId}`;
+  }
+
+  private codeKey(code: string) {
+    return `${this.prefix}:code:${code}`;
+  }
+
+  private listingsKey() {
+    return `${this.prefix}:listings`;
+  }
+
+  private closedKey(lobbyId: string) {
+    return `${this.prefix}:closed:${lobbyId}`;
+  }
+}
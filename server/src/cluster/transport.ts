@@ -0,0 +1,136 @@
+import { PublicLobby } from '../../../shared/types.js';
+
+/** How long a closed lobby is remembered, so returning players learn it closed rather than never existed. */
+export const CLOSED_LOBBY_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+export type ClusterMessage = Record<string, unknown>;
+
+export type ClusterHandler = (message: ClusterMessage) => void;
+
+/**
+ * Pub/sub plus a lobby ownership registry shared by every server instance.
+ * Exactly one instance owns a lobby at a time: it keeps the live state and runs the phase timers.
+ */
+export interface ClusterTransport {
+  publish(channel: string, message: ClusterMessage): Promise<void>;
+  subscribe(channel: string, handler: ClusterHandler): Promise<() => Promise<void>>;
+  /**
+   * Registers or renews `instanceId` as owner for `ttlMs` unless another instance holds an unexpired
+   * claim; resolves to the actual owner. Owners keep renewing, so a crashed one's lobbies free up.
+   */
+  claimOwner(lobbyId: string, instanceId: string, ttlMs: number): Promise<string>;
+  getOwner(lobbyId: string): Promise<string | undefined>;
+  releaseOwner(lobbyId: string, instanceId: string): Promise<void>;
+  /** Maps a join code to `lobbyId`; false when the code already points at another lobby. */
+  reserveCode(code: string, lobbyId: string): Promise<boolean>;
+  resolveCode(code: string): Promise<string | undefined>;
+  releaseCode(code: string, lobbyId: string): Promise<void>;
+  /** Publishes or (with `undefined`) withdraws a lobby's entry in the public lobby browser. */
+  setListing(lobbyId: string, listing: PublicLobby | undefined): Promise<void>;
+  getListings(): Promise<PublicLobby[]>;
+  markClosed(lobbyId: string): Promise<void>;
+  wasClosed(lobbyId: string): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+/**
+ * Process-local transport. A single instance shares one per process; tests can hand the same
+ * transport to several instances to exercise cross-instance routing without Redis.
+ */
+export class InMemoryClusterTransport implements ClusterTransport {
+  private handlers = new Map<string, Set<ClusterHandler>>();
+  private owners = new Map<string, { instanceId: string; expiresAt: number }>();
+  private codes = new Map<string, string>();
+  private listings = new Map<string, PublicLobby>();
+  private closed = new Map<string, number>();
+
+  async publish(channel: string, message: ClusterMessage): Promise<void> {
+    const handlers = this.handlers.get(channel);
+    if (!handlers) return;
+    // Round-trip through JSON and deliver asynchronously so behaviour matches a networked transport.
+    const raw = JSON.stringify(message);
+    for (const handler of handlers) {
+      setImmediate(() => handler(JSON.parse(raw) as ClusterMessage));
+    }
+  }
+
+  async subscribe(channel: string, handler: ClusterHandler): Promise<() => Promise<void>> {
+    const handlers = this.handlers.get(channel) ?? new Set<ClusterHandler>();
+    handlers.add(handler);
+    this.handlers.set(channel, handlers);
+    return async () => {
+      handlers.delete(handler);
+      if (handlers.size === 0) {
+        this.handlers.delete(channel);
+      }
+    };
+  }
+
+  async claimOwner(lobbyId: string, instanceId: string, ttlMs: number): Promise<string> {
+    const current = await this.getOwner(lobbyId);
+    if (current && current !== instanceId) return current;
+    this.owners.set(lobbyId, { instanceId, expiresAt: Date.now() + ttlMs });
+    return instanceId;
+  }
+
+  async getOwner(lobbyId: string): Promise<string | undefined> {
+    const owner = this.owners.get(lobbyId);
+    if (!owner) return undefined;
+    if (owner.expiresAt <= Date.now()) {
+      this.owners.delete(lobbyId);
+      return undefined;
+    }
+    return owner.instanceId;
+  }
+
+  async releaseOwner(lobbyId: string, instanceId: string): Promise<void> {
+    if (this.owners.get(lobbyId)?.instanceId === instanceId) {
+      this.owners.delete(lobbyId);
+    }
+  }
+
+  async reserveCode(code: string, lobbyId: string): Promise<boolean> {
+    const current = this.codes.get(code);
+    if (current) return current === lobbyId;
+    this.codes.set(code, lobbyId);
+    return true;
+  }
+
+  async resolveCode(code: string): Promise<string | undefined> {
+    return this.codes.get(code);
+  }
+
+  async releaseCode(code: string, lobbyId: string): Promise<void> {
+    if (this.codes.get(code) === lobbyId) {
+      this.codes.delete(code);
+    }
+  }
+
+  async setListing(lobbyId: string, listing: PublicLobby | undefined): Promise<void> {
+    if (listing) {
+      this.listings.set(lobbyId, listing);
+    } else {
+      this.listings.delete(lobbyId);
+    }
+  }
+
+  async getListings(): Promise<PublicLobby[]> {
+    return [...this.listings.values()];
+  }
+
+  async markClosed(lobbyId: string): Promise<void> {
+    const now = Date.now();
+    for (const [id, expiresAt] of this.closed) {
+      if (expiresAt <= now) this.closed.delete(id);
+    }
+    this.closed.set(lobbyId, now + CLOSED_LOBBY_MEMORY_MS);
+  }
+
+  async wasClosed(lobbyId: string): Promise<boolean> {
+    return (this.closed.get(lobbyId) ?? 0) > Date.now();
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
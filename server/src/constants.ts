@@ -1,4 +1,7 @@
-import { GameTheme, SituationPrompt } from '../../shared/types.js';
+import path from 'node:path';
+import { ContentRating, GameTheme, Locale, SituationPrompt } from '../../shared/types.js';
+import { describeThemes, loadPromptCatalog } from './game/promptCatalog.js';
+import { DEFAULT_LOCALE } from './i18n.js';
 
 export const CELEBRITY_NAMES: string[] = [
   'Taylor Swift',
@@ -46,49 +49,34 @@ export const EMOJI_AVATARS: string[] = [
   '👾'
 ];
 
-const funSituations: string[] = [
-  'Your group chat suddenly revives at 2AM.',
-  'Someone brings out a karaoke mic at the party.',
-  'You open the fridge and see mystery leftovers.',
-  'It is Monday morning and your alarm just betrayed you.',
-  'A raccoon is staring at you from the trash can.',
-  'Your favorite show just got cancelled again.',
-  'Your friend says "trust me" before doing a backflip.'
-];
+export const PROMPT_CATALOG = loadPromptCatalog(process.env.PROMPT_CATALOG_DIR || path.resolve(process.cwd(), 'catalog'));
 
-const universitySituations: string[] = [
-  "The professor says \"this won't be on the exam\".",
-  'It is finals week and the library is full.',
-  'Group project due tomorrow and no one replied.',
-  'Campus wifi goes down during an online test.',
-  'You accidentally walk into the wrong lecture hall.',
-  'The only printer on campus jams again.',
-  'You see your TA at the grocery store.'
-];
+export const THEMES = describeThemes(PROMPT_CATALOG);
 
-const matureSituations: string[] = [
-  'Your situationship texts "we need to talk".',
-  'The bartender remembers your order a little too well.',
-  'Your ex suddenly watches your stories again.',
-  'You read the receipt after a wild night out.',
-  'The group chat dares you to send a risky text.',
-  'You meet the in-laws after bottomless brunch.'
-];
+export const DEFAULT_THEME: GameTheme = THEMES.some((theme) => theme.id === 'fun') ? 'fun' : THEMES[0].id;
 
-function toPrompts(theme: GameTheme, items: string[]): SituationPrompt[] {
-  return items.map((text, index) => ({
-    id: `${theme}-${index}`,
-    text,
-    theme
-  }));
+export function isKnownTheme(theme: unknown): theme is GameTheme {
+  return typeof theme === 'string' && THEMES.some((item) => item.id === theme);
 }
 
-export const SITUATIONS: Record<GameTheme, SituationPrompt[]> = {
-  fun: toPrompts('fun', funSituations),
-  university: toPrompts('university', universitySituations),
-  '18+': toPrompts('18+', matureSituations)
-};
+export const SITUATIONS: Record<GameTheme, SituationPrompt[]> = Object.fromEntries(
+  PROMPT_CATALOG.themes.map((theme) => [theme.id, PROMPT_CATALOG.prompts.filter((prompt) => prompt.theme === theme.id)])
+);
+
+/** Prompts for a theme in the given language, falling back to English when the theme has no translation. */
+export function getSituations(theme: GameTheme, locale: Locale = DEFAULT_LOCALE): SituationPrompt[] {
+  const prompts = SITUATIONS[theme] ?? SITUATIONS[DEFAULT_THEME];
+  const localized = prompts.filter((prompt) => prompt.locale === locale);
+  return localized.length > 0 ? localized : prompts.filter((prompt) => prompt.locale === DEFAULT_LOCALE);
+}
+
+export const MEME_SEARCH_TERMS: Record<GameTheme, string> = Object.fromEntries(
+  PROMPT_CATALOG.themes.map((theme) => [theme.id, theme.memeSearchTerm ?? theme.label])
+);
+
+export const THEME_CONTENT_RATINGS: Record<GameTheme, ContentRating> = Object.fromEntries(
+  PROMPT_CATALOG.themes.map((theme) => [theme.id, theme.contentRating])
+);
 
-export const SELECTION_DURATION_MS = 45 * 1000;
-export const VOTING_DURATION_MS = 60 * 1000;
-export const RESULTS_DURATION_MS = 12 * 1000;
+/** How long a lobby may sit with nobody connected before it is closed for good. */
+export const LOBBY_IDLE_TTL_MS = Number(process.env.LOBBY_IDLE_TTL_MINUTES || 30) * 60 * 1000;
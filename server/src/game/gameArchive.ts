@@ -0,0 +1,118 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { ArchivedGame, ArchivedGameSummary } from '../../../shared/types.js';
+
+const GAME_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export interface GameArchive {
+  save(game: ArchivedGame): Promise<void>;
+  get(gameId: string): Promise<ArchivedGame | undefined>;
+  /** Newest first. */
+  listForLobby(lobbyId: string): Promise<ArchivedGameSummary[]>;
+}
+
+export function summarizeGame(game: ArchivedGame): ArchivedGameSummary {
+  const winnerIds = new Set(game.standings.filter((entry) => entry.score === game.standings[0]?.score).map((entry) => entry.playerId));
+  return {
+    gameId: game.gameId,
+    lobbyId: game.lobbyId,
+    gameNumber: game.gameNumber,
+    theme: game.settings.theme,
+    startedAt: game.startedAt,
+    finishedAt: game.finishedAt,
+    roundsPlayed: game.rounds.length,
+    winners: game.roster.filter((player) => winnerIds.has(player.playerId))
+  };
+}
+
+export class InMemoryGameArchive implements GameArchive {
+  private games = new Map<string, ArchivedGame>();
+
+  async save(game: ArchivedGame): Promise<void> {
+    this.games.set(game.gameId, game);
+  }
+
+  async get(gameId: string): Promise<ArchivedGame | undefined> {
+    return this.games.get(gameId);
+  }
+
+  async listForLobby(lobbyId: string): Promise<ArchivedGameSummary[]> {
+    return [...this.games.values()]
+      .filter((game) => game.lobbyId === lobbyId)
+      .sort((a, b) => b.finishedAt - a.finishedAt)
+      .map(summarizeGame);
+  }
+}
+
+/**
+ * Keeps each game in `games/<gameId>.json` and a per-lobby index of summaries in
+ * `lobbies/<lobbyId>.json`, so listing a lobby never reads the full games.
+ */
+export class FileGameArchive implements GameArchive {
+  private pending = new Map<string, Promise<void>>();
+
+  constructor(private directory: string) {}
+
+  save(game: ArchivedGame): Promise<void> {
+    // Games of one lobby finish one at a time, but the index is read-modify-write, so chain anyway.
+    return this.enqueue(game.lobbyId, async () => {
+      await writeAtomic(path.join(this.directory, 'games', `${game.gameId}.json`), JSON.stringify(game));
+      const index = await this.readIndex(game.lobbyId);
+      const summaries = [summarizeGame(game), ...index.filter((entry) => entry.gameId !== game.gameId)];
+      await writeAtomic(this.indexFor(game.lobbyId), JSON.stringify(summaries));
+    });
+  }
+
+  async get(gameId: string): Promise<ArchivedGame | undefined> {
+    if (!GAME_ID_PATTERN.test(gameId)) return undefined;
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, 'games', `${gameId}.json`), 'utf8')) as ArchivedGame;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  listForLobby(lobbyId: string): Promise<ArchivedGameSummary[]> {
+    return this.readIndex(lobbyId);
+  }
+
+  private async readIndex(lobbyId: string): Promise<ArchivedGameSummary[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.indexFor(lobbyId), 'utf8')) as ArchivedGameSummary[];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private indexFor(lobbyId: string) {
+    return path.join(this.directory, 'lobbies', `${encodeURIComponent(lobbyId)}.json`);
+  }
+
+  private enqueue(lobbyId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.pending.get(lobbyId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.pending.set(lobbyId, next);
+    next
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.pending.get(lobbyId) === next) {
+          this.pending.delete(lobbyId);
+        }
+      });
+    return next;
+  }
+}
+
+async function writeAtomic(target: string, contents: string) {
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const temp = `${target}.tmp`;
+  await fs.writeFile(temp, contents, 'utf8');
+  await fs.rename(temp, target);
+}
+
+export function createGameArchive(env: NodeJS.ProcessEnv = process.env): GameArchive {
+  const directory = env.GAME_ARCHIVE_DIR || path.resolve(process.cwd(), 'data', 'games');
+  return directory === 'off' ? new InMemoryGameArchive() : new FileGameArchive(directory);
+}
+
+export const gameArchive = createGameArchive();
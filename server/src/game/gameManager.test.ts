@@ -0,0 +1,253 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameErrorCode, LobbySettings } from '../../../shared/types.js';
+import { AUDIENCE_GRACE_MS, GameManager } from './gameManager.js';
+import { InMemoryLobbyStore } from './lobbyStore.js';
+import { LobbyState, PlayerState } from './types.js';
+
+const SETTINGS: LobbySettings = { rounds: 3, theme: 'fun', maxPlayers: 8 };
+
+// A lobby with a connected host; `seat` adds more connected players or spectators.
+function setup(settings: Partial<LobbySettings> = {}, store = new InMemoryLobbyStore()) {
+  const manager = new GameManager(undefined, store);
+  const access = { id: 'lobby-1', code: 'ABCDE', inviteOnly: false };
+  const { lobby, host } = manager.createLobby({ ...SETTINGS, ...settings }, access, { name: 'Host' });
+  manager.markPlayerConnected(lobby.id, host.id, 'socket-Host');
+  const seat = (name: string, spectator = false): PlayerState => {
+    const { player } = manager.joinLobby(lobby.id, { name, spectator });
+    manager.markPlayerConnected(lobby.id, player!.id, `socket-${name}`);
+    return player!;
+  };
+  return { manager, store, lobby, host, seat };
+}
+
+/** Every player who is not judging plays the first card in their hand. */
+function submitAll(manager: GameManager, lobby: LobbyState) {
+  for (const player of lobby.players.values()) {
+    if (player.spectator || player.id === lobby.round?.judgeId) continue;
+    expect(manager.submitMeme(lobby.id, player.id, { memeId: player.hand[0].id })).toBeUndefined();
+  }
+}
+
+/** Points each player earned this round, by name. */
+function roundPoints(lobby: LobbyState) {
+  return Object.fromEntries((lobby.round?.leaderboard ?? []).map((entry) => [lobby.players.get(entry.playerId)?.name, entry.points]));
+}
+
+describe('GameManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('restores a round from the store and restarts its clock where it stopped', async () => {
+    const { manager, store, lobby, host, seat } = setup();
+    seat('Guest');
+    await manager.startGame(lobby.id, host.id);
+    vi.advanceTimersByTime(20_000);
+    manager.unload(lobby.id);
+
+    const restored = new GameManager(undefined, store);
+    expect(await restored.restore()).toEqual([lobby.id]);
+    const round = restored.getLobby(lobby.id)?.round;
+    // Nobody is connected yet, so the 25 seconds left on the 45-second selection clock are banked.
+    expect(round?.endsAt).toBeUndefined();
+    expect(round?.pausedRemainingMs).toBe(25_000);
+
+    restored.markPlayerConnected(lobby.id, host.id, 'socket-Host-2');
+    expect(round?.endsAt).toBe(Date.now() + 25_000);
+    vi.advanceTimersByTime(24_999);
+    expect(restored.getLobby(lobby.id)?.phase).toBe('selection');
+    vi.advanceTimersByTime(1);
+    expect(restored.getLobby(lobby.id)?.phase).toBe('voting');
+  });
+
+  it('re-arms a running clock from endsAt when a lobby is adopted mid-phase', async () => {
+    const { manager, store, lobby, host, seat } = setup();
+    seat('Guest');
+    await manager.startGame(lobby.id, host.id);
+    manager.unload(lobby.id);
+
+    const adopted = new GameManager(undefined, store);
+    expect(await adopted.adopt(lobby.id)).toBe(true);
+    adopted.markPlayerConnected(lobby.id, host.id, 'socket-Host-2');
+    vi.advanceTimersByTime(45_000);
+    expect(adopted.getLobby(lobby.id)?.phase).toBe('voting');
+  });
+
+  it('times phases by the pace preset or clamped custom durations', async () => {
+    const blitz = setup({ pace: 'blitz' });
+    blitz.seat('Guest');
+    await blitz.manager.startGame(blitz.lobby.id, blitz.host.id);
+    expect(blitz.lobby.round?.endsAt).toBe(Date.now() + 20_000);
+
+    const custom = setup({ pace: 'custom', durations: { selection: 5, voting: 500, results: 7 } });
+    expect(custom.lobby.settings.durations).toEqual({ selection: 10, voting: 180, results: 7 });
+  });
+
+  it('runs untimed lobbies without a clock and only extends timed ones', async () => {
+    const untimed = setup({ pace: 'untimed' });
+    untimed.seat('Guest');
+    await untimed.manager.startGame(untimed.lobby.id, untimed.host.id);
+    expect(untimed.lobby.round?.endsAt).toBeUndefined();
+    expect(untimed.manager.extendPhase(untimed.lobby.id, untimed.host.id, 30)?.code).toBe(GameErrorCode.WrongPhase);
+
+    const timed = setup();
+    timed.seat('Guest');
+    await timed.manager.startGame(timed.lobby.id, timed.host.id);
+    expect(timed.manager.extendPhase(timed.lobby.id, timed.host.id, 30)).toBeUndefined();
+    expect(timed.lobby.round?.endsAt).toBe(Date.now() + 75_000);
+    vi.advanceTimersByTime(74_999);
+    expect(timed.lobby.phase).toBe('selection');
+    vi.advanceTimersByTime(1);
+    expect(timed.lobby.phase).toBe('voting');
+  });
+
+  it.each([
+    ['borda', { Host: 2, Bea: 4, Cal: 3 }],
+    ['plurality', { Host: 0, Bea: 2, Cal: 1 }]
+  ] as const)('scores the same ballots with %s', async (scoring, expected) => {
+    const { manager, lobby, host, seat } = setup({ scoring });
+    const bea = seat('Bea');
+    const cal = seat('Cal');
+    await manager.startGame(lobby.id, host.id);
+    submitAll(manager, lobby);
+
+    manager.submitVote(lobby.id, host.id, { ranking: [bea.id, cal.id] });
+    manager.submitVote(lobby.id, bea.id, { ranking: [cal.id, host.id] });
+    manager.submitVote(lobby.id, cal.id, { ranking: [bea.id, host.id] });
+
+    expect(lobby.phase).toBe('roundResults');
+    expect(roundPoints(lobby)).toEqual(expected);
+    expect(bea.score).toBe(expected.Bea);
+  });
+
+  it('checks every ballot against the size the voting mode allows', async () => {
+    const ranking = setup();
+    const [bea, cal] = [ranking.seat('Bea'), ranking.seat('Cal')];
+    await ranking.manager.startGame(ranking.lobby.id, ranking.host.id);
+    submitAll(ranking.manager, ranking.lobby);
+    const vote = (ids: string[]) => ranking.manager.submitVote(ranking.lobby.id, ranking.host.id, { ranking: ids });
+    expect(vote([bea.id])).toEqual({ code: GameErrorCode.InvalidVote, details: { min: 2, max: 2 } });
+    expect(vote([bea.id, bea.id])?.code).toBe(GameErrorCode.InvalidVote);
+    expect(vote([bea.id, ranking.host.id])?.code).toBe(GameErrorCode.InvalidVote);
+    expect(vote([cal.id, bea.id])).toBeUndefined();
+
+    const favorite = setup({ votingMode: 'favorite' });
+    const [dee, eli, fay] = [favorite.seat('Dee'), favorite.seat('Eli'), favorite.seat('Fay')];
+    await favorite.manager.startGame(favorite.lobby.id, favorite.host.id);
+    submitAll(favorite.manager, favorite.lobby);
+    const pick = (voter: PlayerState, ids: string[]) => favorite.manager.submitVote(favorite.lobby.id, voter.id, { ranking: ids });
+    expect(pick(favorite.host, [dee.id, eli.id, fay.id])).toEqual({ code: GameErrorCode.InvalidVote, details: { min: 1, max: 2 } });
+    expect(pick(favorite.host, [])?.code).toBe(GameErrorCode.InvalidVote);
+    expect(pick(favorite.host, [dee.id])).toBeUndefined();
+    expect(pick(dee, [eli.id, fay.id])).toBeUndefined();
+  });
+
+  it('keeps voting open for spectators for a grace window after the players finish', async () => {
+    const { manager, lobby, host, seat } = setup({ audienceVoting: 'award' });
+    const guest = seat('Guest');
+    const early = seat('Early', true);
+    const late = seat('Late', true);
+    await manager.startGame(lobby.id, host.id);
+    submitAll(manager, lobby);
+
+    manager.submitVote(lobby.id, host.id, { ranking: [guest.id] });
+    manager.submitVote(lobby.id, guest.id, { ranking: [host.id] });
+    expect(lobby.phase).toBe('voting');
+    // The 60-second voting clock is cut short.
+    expect(lobby.round?.endsAt).toBe(Date.now() + AUDIENCE_GRACE_MS);
+
+    expect(manager.submitVote(lobby.id, early.id, { ranking: [guest.id, host.id] })).toBeUndefined();
+    vi.advanceTimersByTime(AUDIENCE_GRACE_MS);
+    expect(lobby.phase).toBe('roundResults');
+    expect(lobby.round?.audienceVotes).toEqual(new Map([[early.id, [guest.id, host.id]]]));
+    expect(manager.submitVote(lobby.id, late.id, { ranking: [guest.id, host.id] })?.code).toBe(GameErrorCode.WrongPhase);
+  });
+
+  it('closes voting once every connected spectator has voted too', async () => {
+    const { manager, lobby, host, seat } = setup({ pace: 'untimed', audienceVoting: 'blend' });
+    const guest = seat('Guest');
+    const viewer = seat('Viewer', true);
+    await manager.startGame(lobby.id, host.id);
+    submitAll(manager, lobby);
+
+    manager.submitVote(lobby.id, host.id, { ranking: [guest.id] });
+    manager.submitVote(lobby.id, guest.id, { ranking: [host.id] });
+    // Untimed lobbies get a clock just for the audience.
+    expect(lobby.round?.endsAt).toBe(Date.now() + AUDIENCE_GRACE_MS);
+    manager.submitVote(lobby.id, viewer.id, { ranking: [guest.id, host.id] });
+    expect(lobby.phase).toBe('roundResults');
+  });
+
+  it('does not wait for spectators when audience voting is off', async () => {
+    const { manager, lobby, host, seat } = setup();
+    const guest = seat('Guest');
+    seat('Viewer', true);
+    await manager.startGame(lobby.id, host.id);
+    submitAll(manager, lobby);
+
+    manager.submitVote(lobby.id, host.id, { ranking: [guest.id] });
+    manager.submitVote(lobby.id, guest.id, { ranking: [host.id] });
+    expect(lobby.phase).toBe('roundResults');
+  });
+
+  it('rotates the judge through the players and scores their pick like plurality', async () => {
+    const { manager, lobby, host, seat } = setup({ gameMode: 'judge', scoring: 'borda' });
+    const bea = seat('Bea');
+    const cal = seat('Cal');
+    await manager.startGame(lobby.id, host.id);
+    expect(lobby.round?.judgeId).toBe(host.id);
+    expect(manager.submitMeme(lobby.id, host.id, { memeId: host.hand[0].id })?.code).toBe(GameErrorCode.JudgeCannotSubmit);
+    submitAll(manager, lobby);
+
+    expect(manager.submitVote(lobby.id, bea.id, { ranking: [cal.id] })?.code).toBe(GameErrorCode.NotJudge);
+    expect(manager.submitVote(lobby.id, host.id, { ranking: [bea.id] })).toBeUndefined();
+    expect(lobby.phase).toBe('roundResults');
+    // The judge sits the round's results out.
+    expect(roundPoints(lobby)).toEqual({ Bea: 1, Cal: 0 });
+
+    vi.advanceTimersByTime(12_000);
+    expect(lobby.round?.roundNumber).toBe(2);
+    expect(lobby.round?.judgeId).toBe(bea.id);
+    // Skipping selection, voting and results moves on to the third round.
+    for (let skips = 0; skips < 3; skips += 1) {
+      manager.skipPhase(lobby.id, host.id);
+    }
+    expect(lobby.round?.roundNumber).toBe(3);
+    expect(lobby.round?.judgeId).toBe(cal.id);
+  });
+
+  it('freezes the clock while the host pauses and restarts it with the time that was left', async () => {
+    const { manager, lobby, host, seat } = setup();
+    const guest = seat('Guest');
+    await manager.startGame(lobby.id, host.id);
+    vi.advanceTimersByTime(10_000);
+
+    expect(manager.setPaused(lobby.id, guest.id, true)).toEqual({ code: GameErrorCode.NotHost });
+    expect(manager.setPaused(lobby.id, host.id, true)).toBeUndefined();
+    expect(lobby.round?.endsAt).toBeUndefined();
+    expect(lobby.round?.pausedRemainingMs).toBe(35_000);
+    vi.advanceTimersByTime(60_000);
+    expect(lobby.phase).toBe('selection');
+
+    expect(manager.setPaused(lobby.id, host.id, false)).toBeUndefined();
+    expect(lobby.round?.endsAt).toBe(Date.now() + 35_000);
+    vi.advanceTimersByTime(35_000);
+    expect(lobby.phase).toBe('voting');
+  });
+
+  it('lets the host skip a paused phase', async () => {
+    const { manager, lobby, host, seat } = setup();
+    seat('Guest');
+    await manager.startGame(lobby.id, host.id);
+    manager.setPaused(lobby.id, host.id, true);
+
+    expect(manager.skipPhase(lobby.id, host.id)).toBeUndefined();
+    expect(lobby.phase).toBe('voting');
+    expect(lobby.round?.hostPaused).toBeUndefined();
+    expect(lobby.round?.endsAt).toBe(Date.now() + 60_000);
+  });
+});
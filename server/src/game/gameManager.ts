@@ -1,36 +1,51 @@
 import { randomUUID } from 'node:crypto';
 import {
+  ArchivedGame,
+  AUDIENCE_WEIGHT_LIMITS,
+  GameErrorCode,
+  GamePace,
+  GamePhase,
+  GameRecord,
   LobbyStatePayload,
   LobbySettings,
+  PACE_PRESETS,
+  PHASE_DURATION_LIMITS,
+  PhaseDurations,
   PlayerPublicState,
+  PromptMix,
+  PublicLobby,
+  RematchPayload,
   RoundResultEntry,
+  SeriesTallyEntry,
+  SituationPrompt,
   SubmitMemePayload,
   SubmitVotePayload
 } from '../../../shared/types.js';
 import {
   CELEBRITY_NAMES,
+  DEFAULT_THEME,
   EMOJI_AVATARS,
-  RESULTS_DURATION_MS,
-  SELECTION_DURATION_MS,
-  SITUATIONS,
-  VOTING_DURATION_MS
+  isKnownTheme,
+  LOBBY_IDLE_TTL_MS,
+  getSituations,
+  THEMES
 } from '../constants.js';
+import { DEFAULT_LOCALE, isSupportedLocale, MessageKey } from '../i18n.js';
+import { verifyPassword } from './lobbyAccess.js';
+import { InMemoryLobbyStore, LobbyStore, createLobbyStore } from './lobbyStore.js';
+import { memePackStore } from './memePacks.js';
 import { MockMemeProvider, MemeProvider } from './memeProvider.js';
-import { LobbyState, PlayerState, RoundInternalState, RoundResultEntryInternal } from './types.js';
+import { normalizePrompt, PromptPackStore, promptPackStore } from './promptPacks.js';
+import { PackMemeProvider } from './providers/packProvider.js';
+import { createMemeProvider } from './providers/registry.js';
+import { shuffle } from './random.js';
+import { SCORING_STRATEGIES, ballotSize, scoringStrategy } from './scoring.js';
+import { ActionFailure, HostProfile, LobbyAccess, LobbyState, PlayerState, RoundInternalState, RoundResultEntryInternal } from './types.js';
 
 function randomItem<T>(items: T[]): T {
   return items[Math.floor(Math.random() * items.length)];
 }
 
-function shuffle<T>(items: T[]): T[] {
-  const arr = [...items];
-  for (let i = arr.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-  return arr;
-}
-
 function mulberry32(a: number): () => number {
   return function random() {
     let t = a += 0x6D2B79F5;
@@ -42,14 +57,76 @@ function mulberry32(a: number): () => number {
 
 type TimerId = NodeJS.Timeout;
 
+const MAX_GAME_HISTORY = 20;
+const DEFAULT_AUDIENCE_WEIGHT = 25;
+/** How long spectators still get to vote once every player has. */
+export const AUDIENCE_GRACE_MS = 10_000;
+
+export interface LobbySummary {
+  lobbyId: string;
+  settings: LobbySettings;
+  phase: GamePhase;
+  players: Array<Pick<PlayerPublicState, 'id' | 'name' | 'avatar' | 'spectator' | 'connected'>>;
+  hostId: string;
+  locked: boolean;
+  code: string;
+  hasPassword: boolean;
+  inviteOnly: boolean;
+}
+
 export class GameManager {
   private lobbies = new Map<string, LobbyState>();
   private timers = new Map<string, TimerId>();
+  private expiryTimers = new Map<string, TimerId>();
   private memeProvider: MemeProvider;
+  private store: LobbyStore;
+  private promptPacks: PromptPackStore;
   private listeners = new Set<(lobbyId: string) => void>();
-
-  constructor(provider?: MemeProvider) {
+  private expiryListeners = new Set<(lobby: LobbyState) => void>();
+  private gameListeners = new Set<(game: ArchivedGame) => void>();
+
+  constructor(
+    provider?: MemeProvider,
+    store?: LobbyStore,
+    promptPacks?: PromptPackStore,
+    private idleTtlMs = LOBBY_IDLE_TTL_MS
+  ) {
     this.memeProvider = provider ?? new MockMemeProvider();
+    this.store = store ?? new InMemoryLobbyStore();
+    this.promptPacks = promptPacks ?? promptPackStore;
+  }
+
+  async restore(): Promise<string[]> {
+    const lobbies = await this.store.loadAll();
+    for (const lobby of lobbies) {
+      this.resume(lobby);
+    }
+    return lobbies.map((lobby) => lobby.id);
+  }
+
+  /** Loads one lobby from the store, e.g. to take over from an instance that stopped renewing it. */
+  async adopt(lobbyId: string): Promise<boolean> {
+    if (this.lobbies.has(lobbyId)) return true;
+    const lobby = await this.store.load(lobbyId);
+    if (!lobby) return false;
+    // A concurrent call may have finished loading it first.
+    if (!this.lobbies.has(lobbyId)) this.resume(lobby);
+    return true;
+  }
+
+  private resume(lobby: LobbyState) {
+    // Lobbies saved before newer settings existed get their defaults: the standard clock, Borda scoring.
+    lobby.settings = this.sanitizeSettings(lobby.settings);
+    this.lobbies.set(lobby.id, lobby);
+    this.rearmTimer(lobby);
+    // Everyone comes back disconnected, so the clock waits for the first player to return.
+    this.markEmpty(lobby, lobby.emptySince);
+  }
+
+  unload(lobbyId: string) {
+    this.clearTimer(lobbyId);
+    this.clearExpiry(lobbyId);
+    this.lobbies.delete(lobbyId);
   }
 
   onStateChange(listener: (lobbyId: string) => void) {
@@ -57,22 +134,36 @@ export class GameManager {
     return () => this.listeners.delete(listener);
   }
 
+  /** Called after an idle lobby has been closed and dropped from the store. */
+  onLobbyExpired(listener: (lobby: LobbyState) => void) {
+    this.expiryListeners.add(listener);
+    return () => this.expiryListeners.delete(listener);
+  }
+
+  /** Called with the full record of every game that reaches its final standings. */
+  onGameFinished(listener: (game: ArchivedGame) => void) {
+    this.gameListeners.add(listener);
+    return () => this.gameListeners.delete(listener);
+  }
+
   private notify(lobbyId: string) {
+    this.persist(lobbyId);
     for (const listener of this.listeners) {
       listener(lobbyId);
     }
   }
 
-  createLobby(settings: LobbySettings): { lobby: LobbyState; host: PlayerState } {
+  createLobby(settings: LobbySettings, access: LobbyAccess, profile: HostProfile = {}): { lobby: LobbyState; host: PlayerState } {
     const sanitizedSettings = this.sanitizeSettings(settings);
-    const lobbyId = randomUUID();
+    const lobbyId = access.id;
     const host: PlayerState = {
       id: randomUUID(),
-      name: randomItem(CELEBRITY_NAMES),
-      avatar: randomItem(EMOJI_AVATARS),
+      name: profile.name?.trim().slice(0, 40) || randomItem(CELEBRITY_NAMES),
+      avatar: profile.avatar?.trim().slice(0, 8) || randomItem(EMOJI_AVATARS),
       isHost: true,
       connected: false,
       spectator: false,
+      profileId: profile.profileId,
       score: 0,
       hand: []
     };
@@ -82,13 +173,24 @@ export class GameManager {
       settings: sanitizedSettings,
       hostId: host.id,
       players: new Map([[host.id, host]]),
+      code: access.code,
+      passwordHash: access.passwordHash,
+      inviteOnly: access.inviteOnly,
+      locked: false,
+      bannedPlayerIds: new Set<string>(),
+      bannedProfileIds: new Set<string>(),
       deck: [],
       usedSituations: new Set<string>(),
-      situationsPool: [...SITUATIONS[sanitizedSettings.theme]],
-      phase: 'lobby'
+      situationsPool: [],
+      phase: 'lobby',
+      history: []
     };
+    lobby.situationsPool = this.buildSituationsPool(lobby);
 
     this.lobbies.set(lobbyId, lobby);
+    // The host only connects once their client opens the socket.
+    this.markEmpty(lobby);
+    this.persist(lobbyId);
     return { lobby, host };
   }
 
@@ -96,21 +198,95 @@ export class GameManager {
     return this.lobbies.get(lobbyId);
   }
 
-  joinLobby(lobbyId: string, opts: { playerId?: string; name?: string; avatar?: string; spectator?: boolean }): {
+  getLobbySummary(lobbyId: string): LobbySummary | undefined {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return undefined;
+    return {
+      lobbyId: lobby.id,
+      settings: lobby.settings,
+      phase: lobby.phase,
+      players: [...lobby.players.values()].map((p) => ({
+        id: p.id,
+        name: p.name,
+        avatar: p.avatar,
+        spectator: p.spectator,
+        connected: p.connected
+      })),
+      hostId: lobby.hostId,
+      locked: lobby.locked,
+      code: lobby.code,
+      hasPassword: Boolean(lobby.passwordHash),
+      inviteOnly: lobby.inviteOnly
+    };
+  }
+
+  /** The lobby's entry in the public browser, or undefined while it should not be listed. */
+  getPublicListing(lobbyId: string): PublicLobby | undefined {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby || lobby.passwordHash || lobby.inviteOnly || lobby.locked || lobby.phase === 'finalResults') {
+      return undefined;
+    }
+    const players = [...lobby.players.values()];
+    // Lobbies everyone has walked away from would only waste a click.
+    if (!players.some((player) => player.connected)) return undefined;
+    return {
+      lobbyId: lobby.id,
+      code: lobby.code,
+      theme: lobby.settings.theme,
+      locale: lobby.settings.locale,
+      hostName: lobby.players.get(lobby.hostId)?.name ?? '',
+      players: players.filter((player) => !player.spectator).length,
+      maxPlayers: lobby.settings.maxPlayers,
+      phase: lobby.phase
+    };
+  }
+
+  /** Used when a restored lobby's code was taken by another lobby in the meantime. */
+  reassignCode(lobbyId: string, code: string) {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return;
+    lobby.code = code;
+    this.notify(lobbyId);
+  }
+
+  joinLobby(
+    lobbyId: string,
+    opts: { playerId?: string; name?: string; avatar?: string; spectator?: boolean; password?: string; profileId?: string }
+  ): {
     lobby?: LobbyState;
     player?: PlayerState;
     spectator: boolean;
-    error?: string;
+    error?: ActionFailure;
+    notice?: MessageKey;
   } {
     const lobby = this.lobbies.get(lobbyId);
     if (!lobby) {
-      return { spectator: false, error: 'Lobby not found' };
+      return { spectator: false, error: { code: GameErrorCode.LobbyNotFound } };
+    }
+
+    if (opts.playerId && lobby.bannedPlayerIds.has(opts.playerId)) {
+      return { spectator: false, error: { code: GameErrorCode.Banned } };
     }
 
     const requestedSpectator = Boolean(opts.spectator);
     let player = opts.playerId ? lobby.players.get(opts.playerId) : undefined;
 
     if (!player) {
+      // Someone who lost or dropped a banned seat's token is still recognised by their profile.
+      if (opts.profileId && lobby.bannedProfileIds.has(opts.profileId)) {
+        return { spectator: false, error: { code: GameErrorCode.Banned } };
+      }
+      if (lobby.locked) {
+        return { spectator: false, error: { code: GameErrorCode.LobbyLocked } };
+      }
+      if (lobby.passwordHash) {
+        if (!opts.password) {
+          return { spectator: false, error: { code: GameErrorCode.PasswordRequired } };
+        }
+        if (!verifyPassword(opts.password, lobby.passwordHash)) {
+          return { spectator: false, error: { code: GameErrorCode.WrongPassword } };
+        }
+      }
       const activePlayers = [...lobby.players.values()].filter((p) => !p.spectator);
       const shouldSpectate = requestedSpectator || (lobby.phase !== 'lobby' && activePlayers.length >= lobby.settings.maxPlayers);
 
@@ -121,6 +297,7 @@ export class GameManager {
         isHost: false,
         connected: false,
         spectator: shouldSpectate,
+        profileId: opts.profileId,
         score: 0,
         hand: []
       };
@@ -130,15 +307,19 @@ export class GameManager {
       if (!shouldSpectate) {
         this.ensureHost(lobby);
       }
+      this.persist(lobbyId);
 
       return {
         lobby,
         player,
         spectator: player.spectator,
-        error: shouldSpectate && !requestedSpectator ? 'Lobby is full, joined as spectator.' : undefined
+        notice: shouldSpectate && !requestedSpectator ? 'lobbyFullSpectating' : undefined
       };
     }
 
+    if (opts.profileId) {
+      player.profileId = opts.profileId;
+    }
     return { lobby, player, spectator: player.spectator };
   }
 
@@ -149,6 +330,11 @@ export class GameManager {
     if (!player) return;
     player.connected = true;
     player.socketId = socketId;
+    if (lobby.emptySince !== undefined) {
+      lobby.emptySince = undefined;
+      this.clearExpiry(lobbyId);
+      this.resumeRound(lobby);
+    }
     this.notify(lobbyId);
   }
 
@@ -161,6 +347,9 @@ export class GameManager {
         if (player.isHost) {
           this.ensureHost(lobby);
         }
+        if (![...lobby.players.values()].some((p) => p.connected)) {
+          this.markEmpty(lobby);
+        }
         this.notify(lobby.id);
         return lobby;
       }
@@ -168,60 +357,85 @@ export class GameManager {
     return undefined;
   }
 
-  updatePlayerName(lobbyId: string, playerId: string, name: string) {
+  updatePlayerName(lobbyId: string, playerId: string, name: string): ActionFailure | undefined {
     const lobby = this.lobbies.get(lobbyId);
-    if (!lobby) return;
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
     const player = lobby.players.get(playerId);
-    if (!player) return;
-    const trimmed = name.trim();
-    if (!trimmed) return;
+    if (!player) return { code: GameErrorCode.NotInLobby };
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) return { code: GameErrorCode.InvalidName };
     player.name = trimmed.slice(0, 40);
     this.notify(lobbyId);
+    return undefined;
   }
 
-  updatePlayerAvatar(lobbyId: string, playerId: string, avatar: string) {
+  updatePlayerAvatar(lobbyId: string, playerId: string, avatar: string): ActionFailure | undefined {
     const lobby = this.lobbies.get(lobbyId);
-    if (!lobby) return;
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
     const player = lobby.players.get(playerId);
-    if (!player) return;
+    if (!player) return { code: GameErrorCode.NotInLobby };
+    if (typeof avatar !== 'string' || !avatar.trim()) return { code: GameErrorCode.InvalidAvatar };
     player.avatar = avatar.slice(0, 8);
     this.notify(lobbyId);
+    return undefined;
   }
 
-  updateSettings(lobbyId: string, playerId: string, settings: LobbySettings) {
+  updateSettings(lobbyId: string, playerId: string, settings: LobbySettings): ActionFailure | undefined {
     const lobby = this.lobbies.get(lobbyId);
-    if (!lobby) return;
-    if (lobby.hostId !== playerId) return;
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.hostId !== playerId) return { code: GameErrorCode.NotHost };
     lobby.settings = this.sanitizeSettings(settings);
-    lobby.situationsPool = [...SITUATIONS[lobby.settings.theme]];
+    lobby.situationsPool = this.buildSituationsPool(lobby);
     this.notify(lobbyId);
+    return undefined;
   }
 
-  async startGame(lobbyId: string): Promise<boolean> {
+  async startGame(lobbyId: string, playerId: string): Promise<ActionFailure | undefined> {
     const lobby = this.lobbies.get(lobbyId);
-    if (!lobby) return false;
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.hostId !== playerId) return { code: GameErrorCode.NotHost };
+    // A game in progress is never restarted, so a client retrying a lost acknowledgement is harmless.
+    if (lobby.phase !== 'lobby' && lobby.phase !== 'finalResults') {
+      return { code: GameErrorCode.WrongPhase, details: { phase: lobby.phase } };
+    }
     const players = [...lobby.players.values()].filter((p) => !p.spectator);
-    if (players.length < 2) {
-      return false;
+    // A judge sits each round out, which leaves at least two memes to choose between.
+    const required = lobby.settings.gameMode === 'judge' ? 3 : 2;
+    if (players.length < required) {
+      return { code: GameErrorCode.NotEnoughPlayers, details: { activePlayers: players.length, required } };
+    }
+
+    // Everything that can fail is fetched before the lobby changes, so a failed start leaves it as it was.
+    const cardsPerPlayer = lobby.settings.rounds + 2;
+    const desiredCards = Math.ceil(players.length * cardsPerPlayer * 1.2);
+    const customPrompts = await this.loadCustomPrompts(lobby);
+    const memes = await this.memeProvider.fetchMemes(desiredCards, {
+      theme: lobby.settings.theme,
+      packId: lobby.settings.memePackId
+    });
+    // A second start request may have won the race while this one was loading.
+    if (lobby.phase !== 'lobby' && lobby.phase !== 'finalResults') {
+      return { code: GameErrorCode.WrongPhase, details: { phase: lobby.phase } };
     }
 
     lobby.phase = 'selection';
     lobby.usedSituations.clear();
-    lobby.situationsPool = [...SITUATIONS[lobby.settings.theme]];
-    lobby.deck = [];
+    lobby.customPrompts = customPrompts;
+    lobby.situationsPool = this.buildSituationsPool(lobby);
     lobby.round = undefined;
-
-    const cardsPerPlayer = lobby.settings.rounds + 2;
-    const desiredCards = Math.ceil(players.length * cardsPerPlayer * 1.2);
-    const memes = await this.memeProvider.fetchMemes(desiredCards);
     lobby.deck = shuffle(memes);
+    lobby.currentGame = { gameId: randomUUID(), startedAt: Date.now(), roster: [], rounds: [] };
+    this.trackRoster(lobby);
 
-    for (const player of players) {
+    // Seats can change while the deck loads, so hands go to whoever is playing now.
+    for (const player of [...lobby.players.values()].filter((p) => !p.spectator)) {
       player.score = 0;
       player.hand = [];
       player.submittedMemeId = undefined;
       player.voteRanking = undefined;
       player.bestMoment = undefined;
+      player.audiencePoints = undefined;
+      player.audienceFavorites = undefined;
       for (let i = 0; i < cardsPerPlayer; i += 1) {
         const card = lobby.deck.pop();
         if (card) {
@@ -231,44 +445,206 @@ export class GameManager {
     }
 
     await this.beginRound(lobby);
-    return true;
+    return undefined;
+  }
+
+  kickPlayer(lobbyId: string, playerId: string, targetId: string, ban = false): ActionFailure | undefined {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.hostId !== playerId) return { code: GameErrorCode.NotHost };
+    if (targetId === playerId) return { code: GameErrorCode.InvalidTarget };
+    const target = lobby.players.get(targetId);
+    if (!target) return { code: GameErrorCode.PlayerNotFound, details: { playerId: targetId } };
+    lobby.players.delete(targetId);
+    if (ban) {
+      lobby.bannedPlayerIds.add(targetId);
+      if (target.profileId) lobby.bannedProfileIds.add(target.profileId);
+    }
+    // Their meme leaves the round too, so nobody has to rank it.
+    lobby.round?.submissions.delete(targetId);
+    lobby.round?.votes.delete(targetId);
+    lobby.round?.audienceVotes.delete(targetId);
+    if (!this.advanceIfComplete(lobby)) {
+      this.notify(lobbyId);
+    }
+    return undefined;
+  }
+
+  transferHost(lobbyId: string, playerId: string, targetId: string): ActionFailure | undefined {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.hostId !== playerId) return { code: GameErrorCode.NotHost };
+    const target = lobby.players.get(targetId);
+    if (!target) return { code: GameErrorCode.PlayerNotFound, details: { playerId: targetId } };
+    if (targetId === playerId || target.spectator) return { code: GameErrorCode.InvalidTarget };
+    lobby.hostId = targetId;
+    for (const player of lobby.players.values()) {
+      player.isHost = player.id === targetId;
+    }
+    this.notify(lobbyId);
+    return undefined;
+  }
+
+  setLocked(lobbyId: string, playerId: string, locked: boolean): ActionFailure | undefined {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.hostId !== playerId) return { code: GameErrorCode.NotHost };
+    lobby.locked = locked;
+    this.notify(lobbyId);
+    return undefined;
+  }
+
+  setSpectator(lobbyId: string, playerId: string, targetId: string, spectator: boolean): ActionFailure | undefined {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.hostId !== playerId) return { code: GameErrorCode.NotHost };
+    const target = lobby.players.get(targetId);
+    if (!target) return { code: GameErrorCode.PlayerNotFound, details: { playerId: targetId } };
+    // The host seat must stay a player; hand it over first.
+    if (targetId === lobby.hostId) return { code: GameErrorCode.InvalidTarget };
+    // A new player joining mid-game would have no hand to play from.
+    if (!spectator && lobby.phase !== 'lobby' && lobby.phase !== 'finalResults') {
+      return { code: GameErrorCode.WrongPhase, details: { phase: lobby.phase } };
+    }
+    target.spectator = spectator;
+    if (!this.advanceIfComplete(lobby)) {
+      this.notify(lobbyId);
+    }
+    return undefined;
+  }
+
+  setPaused(lobbyId: string, playerId: string, paused: boolean): ActionFailure | undefined {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.hostId !== playerId) return { code: GameErrorCode.NotHost };
+    const { round } = lobby;
+    if (!round) return { code: GameErrorCode.WrongPhase, details: { phase: lobby.phase } };
+    // Already in the requested state: a retried acknowledgement is not an error.
+    if (Boolean(round.hostPaused) === paused) return undefined;
+    round.hostPaused = paused;
+    if (paused) {
+      this.pauseRound(lobby);
+    } else {
+      this.resumeRound(lobby);
+      // Everyone may have finished during the pause.
+      if (this.advanceIfComplete(lobby)) return undefined;
+    }
+    this.notify(lobbyId);
+    return undefined;
+  }
+
+  /** Ends the current phase now, as if its timer had run out. Lifts a host pause. */
+  skipPhase(lobbyId: string, playerId: string): ActionFailure | undefined {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.hostId !== playerId) return { code: GameErrorCode.NotHost };
+    const { round } = lobby;
+    if (!round) return { code: GameErrorCode.WrongPhase, details: { phase: lobby.phase } };
+    round.hostPaused = undefined;
+    round.pausedRemainingMs = undefined;
+    if (round.phase === 'selection') {
+      this.endSelection(lobbyId);
+    } else if (round.phase === 'voting') {
+      this.endVoting(lobbyId);
+    } else {
+      this.finishRound(lobbyId);
+    }
+    return undefined;
+  }
+
+  extendPhase(lobbyId: string, playerId: string, seconds: number): ActionFailure | undefined {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.hostId !== playerId) return { code: GameErrorCode.NotHost };
+    const { round } = lobby;
+    // Untimed phases have no clock to add to.
+    if (!round || !lobby.settings.durations) return { code: GameErrorCode.WrongPhase, details: { phase: lobby.phase } };
+    if (round.pausedRemainingMs !== undefined) {
+      round.pausedRemainingMs += seconds * 1000;
+    } else if (round.endsAt !== undefined) {
+      round.endsAt += seconds * 1000;
+      this.rearmTimer(lobby);
+    }
+    this.notify(lobbyId);
+    return undefined;
+  }
+
+  /** Skips the remaining rounds; scores so far become the final standings. */
+  endGame(lobbyId: string, playerId: string): ActionFailure | undefined {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.hostId !== playerId) return { code: GameErrorCode.NotHost };
+    if (!lobby.round) return { code: GameErrorCode.WrongPhase, details: { phase: lobby.phase } };
+    this.clearTimer(lobbyId);
+    this.finishGame(lobby);
+    this.notify(lobbyId);
+    return undefined;
+  }
+
+  /**
+   * Plays again with the same roster once a game is over. The finished game stays in the lobby's history;
+   * `backToLobby` stops in the lobby phase so the host can change settings first.
+   */
+  async rematch(lobbyId: string, playerId: string, payload: RematchPayload): Promise<ActionFailure | undefined> {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.hostId !== playerId) return { code: GameErrorCode.NotHost };
+    if (lobby.phase !== 'finalResults') return { code: GameErrorCode.WrongPhase, details: { phase: lobby.phase } };
+    if (payload.rotateTheme) {
+      const index = THEMES.findIndex((theme) => theme.id === lobby.settings.theme);
+      lobby.settings = { ...lobby.settings, theme: THEMES[(index + 1) % THEMES.length].id };
+      lobby.situationsPool = this.buildSituationsPool(lobby);
+    }
+    if (payload.backToLobby) {
+      lobby.phase = 'lobby';
+      this.notify(lobbyId);
+      return undefined;
+    }
+    return this.startGame(lobbyId, playerId);
   }
 
-  submitMeme(lobbyId: string, playerId: string, payload: SubmitMemePayload) {
+  submitMeme(lobbyId: string, playerId: string, payload: SubmitMemePayload): ActionFailure | undefined {
     const lobby = this.lobbies.get(lobbyId);
-    if (!lobby || lobby.phase !== 'selection' || !lobby.round) return;
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.phase !== 'selection' || !lobby.round) return { code: GameErrorCode.WrongPhase, details: { phase: lobby.phase } };
     const player = lobby.players.get(playerId);
-    if (!player || player.spectator) return;
+    if (!player) return { code: GameErrorCode.NotInLobby };
+    if (player.spectator) return { code: GameErrorCode.SpectatorNotAllowed };
+    if (playerId === lobby.round.judgeId) return { code: GameErrorCode.JudgeCannotSubmit };
     const card = player.hand.find((c) => c.id === payload.memeId);
-    if (!card) return;
+    if (!card) return { code: GameErrorCode.CardNotInHand, details: { memeId: payload.memeId } };
     lobby.round.submissions.set(playerId, card);
     player.submittedMemeId = card.id;
     player.hand = player.hand.filter((c) => c.id !== card.id);
-    if (this.allSubmitted(lobby)) {
-      this.endSelection(lobbyId);
-    } else {
+    if (!this.advanceIfComplete(lobby)) {
       this.notify(lobbyId);
     }
+    return undefined;
   }
 
-  submitVote(lobbyId: string, playerId: string, payload: SubmitVotePayload) {
+  submitVote(lobbyId: string, playerId: string, payload: SubmitVotePayload): ActionFailure | undefined {
     const lobby = this.lobbies.get(lobbyId);
-    if (!lobby || lobby.phase !== 'voting' || !lobby.round) return;
+    if (!lobby) return { code: GameErrorCode.LobbyNotFound };
+    if (lobby.phase !== 'voting' || !lobby.round) return { code: GameErrorCode.WrongPhase, details: { phase: lobby.phase } };
     const player = lobby.players.get(playerId);
-    if (!player || player.spectator) return;
+    if (!player) return { code: GameErrorCode.NotInLobby };
+    const audience = player.spectator;
+    if (audience && lobby.settings.audienceVoting === 'off') return { code: GameErrorCode.SpectatorNotAllowed };
+    if (!audience && lobby.round.judgeId && playerId !== lobby.round.judgeId) return { code: GameErrorCode.NotJudge };
     const validTargets = [...lobby.round.submissions.keys()].filter((id) => id !== playerId);
-    if (validTargets.length === 0) return;
-    if (payload.ranking.length !== validTargets.length) return;
-    const unique = new Set(payload.ranking);
-    if (unique.size !== validTargets.length) return;
-    if (!payload.ranking.every((id) => validTargets.includes(id))) return;
-    lobby.round.votes.set(playerId, payload.ranking);
-    player.voteRanking = payload.ranking;
-    if (this.allVotesIn(lobby)) {
-      this.endVoting(lobbyId);
-    } else {
+    if (validTargets.length === 0) return { code: GameErrorCode.NothingToVoteOn };
+    const ranking = Array.isArray(payload.ranking) ? payload.ranking : [];
+    const unique = new Set(ranking);
+    const { min, max } = ballotSize(lobby.settings, validTargets.length);
+    if (ranking.length < min || ranking.length > max || unique.size !== ranking.length || !ranking.every((id) => validTargets.includes(id))) {
+      return { code: GameErrorCode.InvalidVote, details: { min, max } };
+    }
+    (audience ? lobby.round.audienceVotes : lobby.round.votes).set(playerId, ranking);
+    player.voteRanking = ranking;
+    if (!this.advanceIfComplete(lobby)) {
       this.notify(lobbyId);
     }
+    return undefined;
   }
 
   getLobbyStateForPlayer(lobbyId: string, playerId: string): LobbyStatePayload | undefined {
@@ -294,7 +670,13 @@ export class GameManager {
       settings: lobby.settings,
       players,
       hostId: lobby.hostId,
+      locked: lobby.locked,
+      code: lobby.code,
+      hasPassword: Boolean(lobby.passwordHash),
+      inviteOnly: lobby.inviteOnly,
       phase: lobby.phase,
+      history: lobby.history,
+      series: this.buildSeriesTally(lobby),
       you: {
         id: player.id,
         spectator: player.spectator,
@@ -311,7 +693,11 @@ export class GameManager {
         phase: lobby.round.phase,
         submissions: this.buildSubmissionView(lobby, playerId),
         leaderboard: lobby.round.leaderboard ? this.buildRoundResults(lobby.round.leaderboard) : [],
-        endsAt: lobby.round.endsAt
+        endsAt: lobby.round.endsAt,
+        paused: Boolean(lobby.round.hostPaused) || lobby.round.pausedRemainingMs !== undefined,
+        remainingMs: lobby.round.pausedRemainingMs,
+        audienceBallots: lobby.settings.audienceVoting === 'off' ? undefined : lobby.round.audienceVotes.size,
+        judgeId: lobby.round.judgeId
       };
     }
 
@@ -323,13 +709,63 @@ export class GameManager {
   }
 
   private sanitizeSettings(settings: LobbySettings): LobbySettings {
+    const memePackId = typeof settings.memePackId === 'string' ? settings.memePackId.trim().slice(0, 64) : '';
+    const promptPackId = typeof settings.promptPackId === 'string' ? settings.promptPackId.trim().slice(0, 64) : '';
+    const promptMixes: PromptMix[] = ['builtin', 'custom', 'mixed'];
     return {
       rounds: Math.min(20, Math.max(5, Math.floor(settings.rounds))),
-      theme: settings.theme,
-      maxPlayers: Math.min(7, Math.max(2, Math.floor(settings.maxPlayers)))
+      theme: isKnownTheme(settings.theme) ? settings.theme : DEFAULT_THEME,
+      maxPlayers: Math.min(7, Math.max(2, Math.floor(settings.maxPlayers))),
+      memePackId: memePackId || undefined,
+      promptPackId: promptPackId || undefined,
+      promptMix: settings.promptMix && promptMixes.includes(settings.promptMix) ? settings.promptMix : 'mixed',
+      locale: isSupportedLocale(settings.locale) ? settings.locale : DEFAULT_LOCALE,
+      ...this.sanitizePace(settings.pace, settings.durations),
+      scoring: settings.scoring && settings.scoring in SCORING_STRATEGIES ? settings.scoring : 'borda',
+      votingMode: settings.votingMode === 'favorite' ? 'favorite' : 'ranking',
+      audienceVoting: settings.audienceVoting === 'award' || settings.audienceVoting === 'blend' ? settings.audienceVoting : 'off',
+      audienceWeight: Math.min(
+        AUDIENCE_WEIGHT_LIMITS.max,
+        Math.max(AUDIENCE_WEIGHT_LIMITS.min, Math.floor(settings.audienceWeight ?? DEFAULT_AUDIENCE_WEIGHT))
+      ),
+      gameMode: settings.gameMode === 'judge' ? 'judge' : 'classic'
     };
   }
 
+  private sanitizePace(pace: GamePace | undefined, durations: PhaseDurations | undefined): Pick<LobbySettings, 'pace' | 'durations'> {
+    if (pace === 'untimed') return { pace, durations: undefined };
+    if (pace !== 'custom') {
+      const preset = pace && pace in PACE_PRESETS ? pace : 'standard';
+      return { pace: preset, durations: { ...PACE_PRESETS[preset] } };
+    }
+    const clamp = (phase: keyof PhaseDurations) => {
+      const { min, max } = PHASE_DURATION_LIMITS[phase];
+      const value = durations?.[phase] ?? PACE_PRESETS.standard[phase];
+      return Math.min(max, Math.max(min, Math.floor(value)));
+    };
+    return { pace, durations: { selection: clamp('selection'), voting: clamp('voting'), results: clamp('results') } };
+  }
+
+  private async loadCustomPrompts(lobby: LobbyState): Promise<SituationPrompt[] | undefined> {
+    const { promptPackId, theme } = lobby.settings;
+    if (!promptPackId) return undefined;
+    const pack = await this.promptPacks.get(promptPackId);
+    return pack?.prompts.map((text, index) => ({ id: `custom-${pack.id}-${index}`, text, theme }));
+  }
+
+  private buildSituationsPool(lobby: LobbyState): SituationPrompt[] {
+    const builtin = getSituations(lobby.settings.theme, lobby.settings.locale);
+    const custom = lobby.settings.promptPackId ? lobby.customPrompts ?? [] : [];
+    if (custom.length === 0 || lobby.settings.promptMix === 'builtin') {
+      return [...builtin];
+    }
+    if (lobby.settings.promptMix === 'custom') {
+      return [...custom];
+    }
+    const builtinTexts = new Set(builtin.map((prompt) => normalizePrompt(prompt.text)));
+    return [...builtin, ...custom.filter((prompt) => !builtinTexts.has(normalizePrompt(prompt.text)))];
+  }
+
   private ensureHost(lobby: LobbyState) {
     const currentHost = lobby.players.get(lobby.hostId);
     if (currentHost && !currentHost.spectator) {
@@ -355,6 +791,8 @@ export class GameManager {
       submissions: new Map(),
       submissionSlots: new Map(),
       votes: new Map(),
+      audienceVotes: new Map(),
+      judgeId: lobby.settings.gameMode === 'judge' ? this.nextJudge(lobby) : undefined,
       phase: 'selection',
       seed: Math.floor(Math.random() * 100000)
     };
@@ -366,14 +804,20 @@ export class GameManager {
       player.voteRanking = undefined;
     }
 
-    round.endsAt = Date.now() + SELECTION_DURATION_MS;
-    this.setTimer(lobby.id, () => this.endSelection(lobby.id), SELECTION_DURATION_MS);
+    this.startPhaseClock(lobby);
     this.notify(lobby.id);
   }
 
+  /** The active player after the previous round's judge, in join order; the first one opens the game. */
+  private nextJudge(lobby: LobbyState) {
+    const participants = [...lobby.players.values()].filter((p) => !p.spectator);
+    const previous = participants.findIndex((p) => p.id === lobby.round?.judgeId);
+    return participants[(previous + 1) % participants.length]?.id;
+  }
+
   private pickSituation(lobby: LobbyState) {
     if (lobby.situationsPool.length === 0) {
-      lobby.situationsPool = [...SITUATIONS[lobby.settings.theme]].map((prompt, index) => ({
+      lobby.situationsPool = this.buildSituationsPool(lobby).map((prompt, index) => ({
         ...prompt,
         id: `${prompt.id}-repeat-${index}`,
         text: `${prompt.text} (new spin)`
@@ -388,7 +832,7 @@ export class GameManager {
 
   private allSubmitted(lobby: LobbyState) {
     if (!lobby.round) return false;
-    const participants = [...lobby.players.values()].filter((p) => !p.spectator);
+    const participants = [...lobby.players.values()].filter((p) => !p.spectator && p.id !== lobby.round?.judgeId);
     return participants.every((p) => lobby.round?.submissions.has(p.id));
   }
 
@@ -396,12 +840,54 @@ export class GameManager {
     if (!lobby.round) return false;
     const participants = [...lobby.players.values()].filter((p) => !p.spectator);
     if (participants.length <= 1) return true;
+    const { judgeId } = lobby.round;
+    // A judge who left or stepped out to watch is not waited for; their pick is drawn instead.
+    if (judgeId) return lobby.round.votes.has(judgeId) || !participants.some((p) => p.id === judgeId);
     return participants.every((p) => lobby.round?.votes.has(p.id));
   }
 
+  private audienceVotesIn(lobby: LobbyState) {
+    if (!lobby.round || lobby.settings.audienceVoting === 'off' || lobby.round.submissions.size === 0) return true;
+    const audience = [...lobby.players.values()].filter((p) => p.spectator && p.connected);
+    return audience.every((p) => lobby.round?.audienceVotes.has(p.id));
+  }
+
+  /** Cuts the voting clock down to the audience grace window, starting one in untimed lobbies. */
+  private startAudienceGrace(lobby: LobbyState) {
+    const { round } = lobby;
+    if (!round) return;
+    if (round.pausedRemainingMs !== undefined) {
+      round.pausedRemainingMs = Math.min(round.pausedRemainingMs, AUDIENCE_GRACE_MS);
+      return;
+    }
+    const graceEndsAt = Date.now() + AUDIENCE_GRACE_MS;
+    if (round.endsAt !== undefined && round.endsAt <= graceEndsAt) return;
+    round.endsAt = graceEndsAt;
+    this.rearmTimer(lobby);
+  }
+
+  /** Ends the current phase early when removing a participant leaves nobody left to wait for. */
+  private advanceIfComplete(lobby: LobbyState): boolean {
+    // A host pause freezes the phase even when everyone has already acted.
+    if (lobby.round?.hostPaused) return false;
+    if (lobby.phase === 'selection' && this.allSubmitted(lobby)) {
+      this.endSelection(lobby.id);
+      return true;
+    }
+    if (lobby.phase === 'voting' && this.allVotesIn(lobby)) {
+      if (this.audienceVotesIn(lobby)) {
+        this.endVoting(lobby.id);
+        return true;
+      }
+      // Spectators who have not voted yet get a last window instead of a closed phase.
+      this.startAudienceGrace(lobby);
+    }
+    return false;
+  }
+
   private ensureAutoSubmissions(lobby: LobbyState) {
     if (!lobby.round) return;
-    const participants = [...lobby.players.values()].filter((p) => !p.spectator);
+    const participants = [...lobby.players.values()].filter((p) => !p.spectator && p.id !== lobby.round?.judgeId);
     for (const player of participants) {
       if (lobby.round.submissions.has(player.id)) continue;
       const card = player.hand.length > 0 ? randomItem(player.hand) : undefined;
@@ -415,13 +901,17 @@ export class GameManager {
 
   private ensureAutoVotes(lobby: LobbyState) {
     if (!lobby.round) return;
-    const participants = [...lobby.players.values()].filter((p) => !p.spectator);
-    for (const voter of participants) {
-      if (lobby.round.votes.has(voter.id)) continue;
-      const options = [...lobby.round.submissions.keys()].filter((id) => id !== voter.id);
-      const ranking = shuffle(options);
-      lobby.round.votes.set(voter.id, ranking);
-      voter.voteRanking = ranking;
+    const { judgeId } = lobby.round;
+    // Only the judge votes in judge mode, and the round still gets a winner if they are gone.
+    const voterIds = judgeId ? [judgeId] : [...lobby.players.values()].filter((p) => !p.spectator).map((p) => p.id);
+    for (const voterId of voterIds) {
+      if (lobby.round.votes.has(voterId)) continue;
+      const options = [...lobby.round.submissions.keys()].filter((id) => id !== voterId);
+      // The smallest valid ballot: a full ranking, or a single favorite, approval or judge's pick.
+      const ranking = shuffle(options).slice(0, ballotSize(lobby.settings, options.length).min);
+      lobby.round.votes.set(voterId, ranking);
+      const voter = lobby.players.get(voterId);
+      if (voter) voter.voteRanking = ranking;
     }
   }
 
@@ -440,8 +930,7 @@ export class GameManager {
       lobby.round?.submissionSlots.set(playerId, slots[index]);
     });
 
-    lobby.round.endsAt = Date.now() + VOTING_DURATION_MS;
-    this.setTimer(lobby.id, () => this.endVoting(lobby.id), VOTING_DURATION_MS);
+    this.startPhaseClock(lobby);
     this.notify(lobby.id);
   }
 
@@ -453,34 +942,55 @@ export class GameManager {
 
     const leaderboard = this.calculateScores(lobby);
     lobby.round.leaderboard = leaderboard;
+    this.trackRoster(lobby);
+    lobby.currentGame?.rounds.push({
+      roundNumber: lobby.round.roundNumber,
+      judgeId: lobby.round.judgeId,
+      situation: lobby.round.situation,
+      submissions: [...lobby.round.submissions].map(([playerId, meme]) => ({ playerId, meme })),
+      votes: [...lobby.round.votes].map(([playerId, ranking]) => ({ playerId, ranking })),
+      audienceVotes: lobby.round.audienceVotes.size
+        ? [...lobby.round.audienceVotes].map(([playerId, ranking]) => ({ playerId, ranking }))
+        : undefined,
+      results: this.buildRoundResults(leaderboard)
+    });
     lobby.round.phase = 'roundResults';
     lobby.phase = 'roundResults';
 
-    lobby.round.endsAt = Date.now() + RESULTS_DURATION_MS;
-    this.setTimer(lobby.id, () => this.finishRound(lobby.id), RESULTS_DURATION_MS);
+    this.startPhaseClock(lobby);
     this.notify(lobby.id);
   }
 
   private calculateScores(lobby: LobbyState): RoundResultEntryInternal[] {
     if (!lobby.round) return [];
-    const participants = [...lobby.players.values()].filter((p) => !p.spectator);
+    // The judge has no meme in play, so they sit out the round's results.
+    const participants = [...lobby.players.values()].filter((p) => !p.spectator && p.id !== lobby.round?.judgeId);
     const optionsPerVote = Math.max(1, participants.length - 1);
-    const scoreboard = new Map<string, { points: number; first: number; second: number; placements: number[] }>();
+    const strategy = scoringStrategy(lobby.settings);
+    // Approval ballots are unordered, so only rankings can break ties by first and second places.
+    const ranked = strategy.ballot === 'ranking';
+    const scoreboard = new Map<string, { points: number; bonus: number; first: number; second: number; placements: number[] }>();
 
     for (const participant of participants) {
-      scoreboard.set(participant.id, { points: 0, first: 0, second: 0, placements: Array(optionsPerVote).fill(0) });
+      scoreboard.set(participant.id, {
+        points: 0,
+        bonus: 0,
+        first: 0,
+        second: 0,
+        placements: Array(strategy.buckets(optionsPerVote)).fill(0)
+      });
     }
 
     for (const [voterId, ranking] of lobby.round.votes.entries()) {
       ranking.forEach((playerId, index) => {
         const info = scoreboard.get(playerId);
         if (!info) return;
-        const points = optionsPerVote - index;
-        info.points += points;
-        if (index === 0) info.first += 1;
-        if (index === 1) info.second += 1;
-        if (index < info.placements.length) {
-          info.placements[index] += 1;
+        info.points += strategy.points(index, optionsPerVote);
+        if (ranked && index === 0) info.first += 1;
+        if (ranked && index === 1) info.second += 1;
+        const bucket = strategy.bucket(index);
+        if (bucket !== undefined && bucket < info.placements.length) {
+          info.placements[bucket] += 1;
         }
       });
       const voter = lobby.players.get(voterId);
@@ -489,11 +999,34 @@ export class GameManager {
       }
     }
 
+    for (const [playerId, bonus] of strategy.bonus?.(lobby.round.votes, optionsPerVote) ?? []) {
+      const info = scoreboard.get(playerId);
+      if (!info) continue;
+      info.bonus += bonus;
+      info.points += bonus;
+    }
+
+    const audience = this.tallyAudience(lobby);
+    const topAudience = Math.max(0, ...(audience?.values() ?? []));
+    // The whole audience weighs as much as `audienceWeight` percent of the players' ballots, however many are watching.
+    const audienceScale =
+      lobby.settings.audienceVoting === 'blend' && lobby.round.audienceVotes.size > 0
+        ? (lobby.round.votes.size / lobby.round.audienceVotes.size) * ((lobby.settings.audienceWeight ?? DEFAULT_AUDIENCE_WEIGHT) / 100)
+        : 0;
+
     const random = mulberry32(lobby.round.seed);
 
     const ordered = participants
       .map((player) => {
         const entry = scoreboard.get(player.id)!;
+        const audiencePoints = audience?.get(player.id) ?? 0;
+        const audienceShare = Math.round(audiencePoints * audienceScale);
+        const audienceFavorite = audiencePoints > 0 && audiencePoints === topAudience;
+        entry.points += audienceShare;
+        if (audience) {
+          player.audiencePoints = (player.audiencePoints ?? 0) + audiencePoints;
+          player.audienceFavorites = (player.audienceFavorites ?? 0) + (audienceFavorite ? 1 : 0);
+        }
         player.score += entry.points;
         const card = lobby.round?.submissions.get(player.id);
         if (card) {
@@ -510,9 +1043,13 @@ export class GameManager {
         return {
           playerId: player.id,
           points: entry.points,
+          bonus: entry.bonus || undefined,
           firstPlaceVotes: entry.first,
           secondPlaceVotes: entry.second,
-          placements: entry.placements
+          placements: entry.placements,
+          audiencePoints: audience ? audiencePoints : undefined,
+          audienceShare: audienceShare || undefined,
+          audienceFavorite: audienceFavorite || undefined
         } satisfies RoundResultEntryInternal;
       })
       .sort((a, b) => {
@@ -525,6 +1062,20 @@ export class GameManager {
     return ordered;
   }
 
+  /** Points per player from spectators' ballots, scored like the players' own; unset when audience voting is off. */
+  private tallyAudience(lobby: LobbyState): Map<string, number> | undefined {
+    if (!lobby.round || lobby.settings.audienceVoting === 'off') return undefined;
+    const strategy = scoringStrategy(lobby.settings);
+    const tally = new Map<string, number>();
+    for (const [voterId, ranking] of lobby.round.audienceVotes) {
+      const options = [...lobby.round.submissions.keys()].filter((id) => id !== voterId).length;
+      ranking.forEach((playerId, index) => {
+        tally.set(playerId, (tally.get(playerId) ?? 0) + strategy.points(index, options));
+      });
+    }
+    return tally;
+  }
+
   private buildSubmissionView(lobby: LobbyState, viewerId: string) {
     if (!lobby.round) return [];
     return [...lobby.round.submissions.entries()]
@@ -542,15 +1093,117 @@ export class GameManager {
       points: entry.points,
       rank: index + 1,
       breakdown: [...entry.placements],
+      bonus: entry.bonus,
+      audiencePoints: entry.audiencePoints,
+      audienceShare: entry.audienceShare,
+      audienceFavorite: entry.audienceFavorite,
       firstPlaceVotes: entry.firstPlaceVotes,
       secondPlaceVotes: entry.secondPlaceVotes
     }));
   }
 
+  private finishGame(lobby: LobbyState) {
+    const gameNumber = (lobby.history.at(-1)?.gameNumber ?? 0) + 1;
+    const results = this.buildFinalResults(lobby);
+    lobby.history.push({
+      gameId: lobby.currentGame?.gameId,
+      gameNumber,
+      theme: lobby.settings.theme,
+      rounds: lobby.round?.roundNumber ?? lobby.settings.rounds,
+      finishedAt: Date.now(),
+      results: results.map((entry) => {
+        const player = lobby.players.get(entry.playerId);
+        return {
+          playerId: entry.playerId,
+          name: player?.name ?? '',
+          avatar: player?.avatar ?? '',
+          score: entry.score,
+          // Equal scores share a rank.
+          rank: results.findIndex((other) => other.score === entry.score) + 1
+        };
+      })
+    });
+    if (lobby.history.length > MAX_GAME_HISTORY) {
+      lobby.history.splice(0, lobby.history.length - MAX_GAME_HISTORY);
+    }
+    this.archiveGame(lobby, gameNumber, results);
+    lobby.phase = 'finalResults';
+    lobby.round = undefined;
+  }
+
+  private archiveGame(lobby: LobbyState, gameNumber: number, standings: ArchivedGame['standings']) {
+    const log = lobby.currentGame;
+    // Lobbies restored mid-game from before the archive existed have nothing to archive.
+    if (!log) return;
+    this.trackRoster(lobby);
+    const game: ArchivedGame = {
+      gameId: log.gameId,
+      lobbyId: lobby.id,
+      gameNumber,
+      settings: lobby.settings,
+      startedAt: log.startedAt,
+      finishedAt: Date.now(),
+      roster: log.roster,
+      rounds: log.rounds,
+      standings
+    };
+    lobby.currentGame = undefined;
+    for (const listener of this.gameListeners) {
+      listener(game);
+    }
+  }
+
+  /** Adds anyone playing to the game's roster and refreshes names, so the archive shows them as they ended up. */
+  private trackRoster(lobby: LobbyState) {
+    const log = lobby.currentGame;
+    if (!log) return;
+    for (const player of lobby.players.values()) {
+      if (player.spectator) continue;
+      const entry = log.roster.find((item) => item.playerId === player.id);
+      if (entry) {
+        entry.name = player.name;
+        entry.avatar = player.avatar;
+        entry.profileId = player.profileId;
+      } else {
+        log.roster.push({ playerId: player.id, profileId: player.profileId, name: player.name, avatar: player.avatar });
+      }
+    }
+  }
+
+  private buildSeriesTally(lobby: LobbyState): SeriesTallyEntry[] {
+    const tally = new Map<string, SeriesTallyEntry>();
+    for (const game of lobby.history) {
+      for (const result of game.results) {
+        const entry = tally.get(result.playerId) ?? {
+          playerId: result.playerId,
+          name: result.name,
+          avatar: result.avatar,
+          wins: 0,
+          gamesPlayed: 0,
+          totalScore: 0
+        };
+        // Later games carry the more recent name and avatar.
+        entry.name = result.name;
+        entry.avatar = result.avatar;
+        entry.gamesPlayed += 1;
+        entry.totalScore += result.score;
+        if (result.rank === 1) entry.wins += 1;
+        tally.set(result.playerId, entry);
+      }
+    }
+    return [...tally.values()].sort((a, b) => b.wins - a.wins || b.totalScore - a.totalScore);
+  }
+
   private buildFinalResults(lobby: LobbyState) {
     const participants = [...lobby.players.values()].filter((p) => !p.spectator);
     return participants
-      .map((p) => ({ playerId: p.id, score: p.score, bestMoment: p.bestMoment }))
+      .map((p) => ({
+        playerId: p.id,
+        score: p.score,
+        bestMoment: p.bestMoment,
+        audiencePoints: p.audiencePoints,
+        audienceFavorites: p.audienceFavorites
+      }))
       .sort((a, b) => b.score - a.score);
   }
 
@@ -560,8 +1213,7 @@ export class GameManager {
     this.clearTimer(lobbyId);
 
     if (lobby.round.roundNumber >= lobby.settings.rounds) {
-      lobby.phase = 'finalResults';
-      lobby.round = undefined;
+      this.finishGame(lobby);
     } else {
       lobby.phase = 'selection';
       this.beginRound(lobby);
@@ -569,6 +1221,103 @@ export class GameManager {
     this.notify(lobby.id);
   }
 
+  private rearmTimer(lobby: LobbyState) {
+    const { round } = lobby;
+    if (!round) {
+      // A game interrupted while dealing never reached its first round.
+      if (lobby.phase !== 'finalResults') {
+        lobby.phase = 'lobby';
+      }
+      return;
+    }
+    // Paused and untimed phases have no clock to re-arm.
+    if (round.pausedRemainingMs !== undefined || round.endsAt === undefined) return;
+    const remaining = Math.max(0, round.endsAt - Date.now());
+    if (round.phase === 'selection') {
+      this.setTimer(lobby.id, () => this.endSelection(lobby.id), remaining);
+    } else if (round.phase === 'voting') {
+      this.setTimer(lobby.id, () => this.endVoting(lobby.id), remaining);
+    } else if (round.phase === 'roundResults') {
+      this.setTimer(lobby.id, () => this.finishRound(lobby.id), remaining);
+    }
+  }
+
+  /**
+   * Gives the round's new phase its full time. Untimed lobbies get no clock; a round that is paused,
+   * by the host or because everyone left, keeps the time banked until it resumes.
+   */
+  private startPhaseClock(lobby: LobbyState) {
+    const { round } = lobby;
+    if (!round) return;
+    this.clearTimer(lobby.id);
+    round.endsAt = undefined;
+    round.pausedRemainingMs = undefined;
+    const durations = lobby.settings.durations;
+    if (!durations) return;
+    const seconds = round.phase === 'selection' ? durations.selection : round.phase === 'voting' ? durations.voting : durations.results;
+    if (round.hostPaused || lobby.emptySince !== undefined) {
+      round.pausedRemainingMs = seconds * 1000;
+      return;
+    }
+    round.endsAt = Date.now() + seconds * 1000;
+    this.rearmTimer(lobby);
+  }
+
+  private markEmpty(lobby: LobbyState, since = Date.now()) {
+    lobby.emptySince = since;
+    this.pauseRound(lobby);
+    this.clearExpiry(lobby.id);
+    const expiry = setTimeout(() => this.expire(lobby.id), Math.max(0, since + this.idleTtlMs - Date.now()));
+    this.expiryTimers.set(lobby.id, expiry);
+  }
+
+  /** Stops the phase clock so an empty game does not play itself out on auto-submissions. */
+  private pauseRound(lobby: LobbyState) {
+    const { round } = lobby;
+    if (!round || round.endsAt === undefined || round.pausedRemainingMs !== undefined) return;
+    round.pausedRemainingMs = Math.max(0, round.endsAt - Date.now());
+    round.endsAt = undefined;
+    this.clearTimer(lobby.id);
+  }
+
+  private resumeRound(lobby: LobbyState) {
+    const { round } = lobby;
+    if (!round || round.pausedRemainingMs === undefined || round.hostPaused) return;
+    round.endsAt = Date.now() + round.pausedRemainingMs;
+    round.pausedRemainingMs = undefined;
+    this.rearmTimer(lobby);
+  }
+
+  private expire(lobbyId: string) {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return;
+    this.unload(lobbyId);
+    this.store.delete(lobbyId).catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to delete lobby ${lobbyId}`, error);
+    });
+    for (const listener of this.expiryListeners) {
+      listener(lobby);
+    }
+  }
+
+  private clearExpiry(lobbyId: string) {
+    const timer = this.expiryTimers.get(lobbyId);
+    if (timer) {
+      clearTimeout(timer);
+      this.expiryTimers.delete(lobbyId);
+    }
+  }
+
+  private persist(lobbyId: string) {
+    const lobby = this.lobbies.get(lobbyId);
+    if (!lobby) return;
+    this.store.save(lobby).catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to persist lobby ${lobbyId}`, error);
+    });
+  }
+
   private setTimer(lobbyId: string, handler: () => void, duration: number) {
     this.clearTimer(lobbyId);
     const timer = setTimeout(() => {
@@ -587,4 +1336,4 @@ export class GameManager {
   }
 }
 
-export const gameManager = new GameManager();
+export const gameManager = new GameManager(new PackMemeProvider(memePackStore, createMemeProvider()), createLobbyStore());
@@ -0,0 +1,164 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import {
+  ArchivedGame,
+  LeaderboardSeason,
+  LeaderboardsResponse,
+  RatingEntry,
+  SeasonBoard,
+  SeasonEntry
+} from '../../../shared/types.js';
+
+const DEFAULT_RATING = 1500;
+const K_FACTOR = 32;
+const BOARD_SIZE = 20;
+
+type Entries<T> = Record<string, T>;
+
+/** ISO-8601 week of a UTC timestamp, e.g. `2026-W07`. */
+function isoWeek(timestamp: number) {
+  const date = new Date(timestamp);
+  const day = date.getUTCDay() || 7;
+  // The Thursday of the same week decides which year the week belongs to.
+  const thursday = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 4 - day);
+  const year = new Date(thursday).getUTCFullYear();
+  const week = Math.ceil((thursday - Date.UTC(year, 0, 1)) / 86_400_000 / 7 + 1 / 7);
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+function periodOf(season: LeaderboardSeason, timestamp: number) {
+  switch (season) {
+    case 'weekly':
+      return isoWeek(timestamp);
+    case 'monthly':
+      return new Date(timestamp).toISOString().slice(0, 7);
+    case 'allTime':
+      return 'all';
+  }
+}
+
+const SEASONS: LeaderboardSeason[] = ['weekly', 'monthly', 'allTime'];
+
+/**
+ * Multiplayer Elo: each game counts as a round-robin between its linked players, where a higher
+ * final score beats a lower one and equal scores draw. K is split across opponents so a game moves
+ * a rating about as much as a single head-to-head would.
+ */
+function rateGame(ratings: Entries<RatingEntry>, players: { profileId: string; score: number }[]) {
+  const before = new Map(players.map(({ profileId }) => [profileId, ratings[profileId]?.rating ?? DEFAULT_RATING]));
+  const k = K_FACTOR / (players.length - 1);
+  return players.map((player) => {
+    const rating = before.get(player.profileId)!;
+    const delta = players.reduce((sum, opponent) => {
+      if (opponent === player) return sum;
+      const expected = 1 / (1 + 10 ** ((before.get(opponent.profileId)! - rating) / 400));
+      const actual = player.score > opponent.score ? 1 : player.score === opponent.score ? 0.5 : 0;
+      return sum + k * (actual - expected);
+    }, 0);
+    return { profileId: player.profileId, rating: rating + delta };
+  });
+}
+
+function topBy(entries: SeasonEntry[], key: 'points' | 'wins') {
+  return [...entries].sort((a, b) => b[key] - a[key] || b.gamesPlayed - a.gamesPlayed).slice(0, BOARD_SIZE);
+}
+
+/**
+ * Ratings and seasonal boards for players with a persistent profile, fed by archived games.
+ * Every board is its own JSON file, so past weeks and months stay on disk untouched.
+ */
+export class LeaderboardStore {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  recordGame(game: ArchivedGame): Promise<void> {
+    // A game ended before its first round was scored ties everyone at zero; it proves nothing.
+    if (game.rounds.length === 0) return Promise.resolve();
+    const seen = new Set<string>();
+    const players = game.standings.flatMap(({ playerId, score }) => {
+      const player = game.roster.find((entry) => entry.playerId === playerId);
+      if (!player?.profileId || seen.has(player.profileId)) return [];
+      seen.add(player.profileId);
+      return [{ ...player, profileId: player.profileId, score }];
+    });
+    if (players.length === 0) return Promise.resolve();
+    const topScore = game.standings[0]?.score;
+
+    return this.enqueue(async () => {
+      if (players.length > 1) {
+        const ratings = await this.readEntries<RatingEntry>('ratings.json');
+        for (const { profileId, rating } of rateGame(ratings, players)) {
+          const { name, avatar } = players.find((player) => player.profileId === profileId)!;
+          const gamesRated = (ratings[profileId]?.gamesRated ?? 0) + 1;
+          ratings[profileId] = { profileId, name, avatar, rating, gamesRated };
+        }
+        await this.writeEntries('ratings.json', ratings);
+      }
+
+      for (const season of SEASONS) {
+        const file = this.boardFile(season, periodOf(season, game.finishedAt));
+        const board = await this.readEntries<SeasonEntry>(file);
+        for (const { profileId, name, avatar, score } of players) {
+          const entry = board[profileId] ?? { profileId, name, avatar, points: 0, wins: 0, gamesPlayed: 0 };
+          board[profileId] = {
+            ...entry,
+            name,
+            avatar,
+            points: entry.points + score,
+            wins: entry.wins + (score === topScore ? 1 : 0),
+            gamesPlayed: entry.gamesPlayed + 1
+          };
+        }
+        await this.writeEntries(file, board);
+      }
+    });
+  }
+
+  async read(now = Date.now()): Promise<LeaderboardsResponse> {
+    const ratings = Object.values(await this.readEntries<RatingEntry>('ratings.json'))
+      .sort((a, b) => b.rating - a.rating)
+      .slice(0, BOARD_SIZE)
+      .map((entry) => ({ ...entry, rating: Math.round(entry.rating) }));
+    const [weekly, monthly, allTime] = await Promise.all(SEASONS.map((season) => this.readBoard(season, now)));
+    return { ratings, weekly, monthly, allTime };
+  }
+
+  private async readBoard(season: LeaderboardSeason, now: number): Promise<SeasonBoard> {
+    const period = periodOf(season, now);
+    const entries = Object.values(await this.readEntries<SeasonEntry>(this.boardFile(season, period)));
+    return { season, period, byPoints: topBy(entries, 'points'), byWins: topBy(entries, 'wins') };
+  }
+
+  private boardFile(season: LeaderboardSeason, period: string) {
+    return season === 'allTime' ? 'all-time.json' : `${season}-${period}.json`;
+  }
+
+  private async readEntries<T>(file: string): Promise<Entries<T>> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8')) as Entries<T>;
+    } catch (error) {
+      return {};
+    }
+  }
+
+  private async writeEntries<T>(file: string, entries: Entries<T>) {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = path.join(this.directory, file);
+    await fs.writeFile(`${target}.tmp`, JSON.stringify(entries), 'utf8');
+    await fs.rename(`${target}.tmp`, target);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    // Every game touches the same files, so all updates share one chain.
+    const next = this.queue.catch(() => undefined).then(task);
+    this.queue = next;
+    return next;
+  }
+}
+
+export function createLeaderboardStore(env: NodeJS.ProcessEnv = process.env) {
+  return new LeaderboardStore(env.LEADERBOARD_DIR || path.resolve(process.cwd(), 'data', 'leaderboards'));
+}
+
+export const leaderboardStore = createLeaderboardStore();
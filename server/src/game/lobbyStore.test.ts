@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameManager } from './gameManager.js';
+import { deserializeLobby, SerializedLobby, serializeLobby } from './lobbyStore.js';
+
+describe('lobby snapshots', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('round-trips a game in progress through JSON', async () => {
+    const manager = new GameManager();
+    const { lobby, host } = manager.createLobby(
+      { rounds: 3, theme: 'fun', maxPlayers: 8, audienceVoting: 'award' },
+      { id: 'lobby-1', code: 'ABCDE', inviteOnly: false },
+      { name: 'Host' }
+    );
+    manager.markPlayerConnected(lobby.id, host.id, 'socket-Host');
+    const guest = manager.joinLobby(lobby.id, { name: 'Guest' }).player!;
+    const viewer = manager.joinLobby(lobby.id, { name: 'Viewer', spectator: true }).player!;
+    const troll = manager.joinLobby(lobby.id, { name: 'Troll', spectator: true, profileId: 'profile-troll' }).player!;
+    manager.kickPlayer(lobby.id, host.id, troll.id, true);
+    await manager.startGame(lobby.id, host.id);
+    for (const player of [host, guest]) {
+      manager.submitMeme(lobby.id, player.id, { memeId: player.hand[0].id });
+    }
+    manager.submitVote(lobby.id, host.id, { ranking: [guest.id] });
+    manager.submitVote(lobby.id, viewer.id, { ranking: [host.id, guest.id] });
+
+    const restored = deserializeLobby(JSON.parse(JSON.stringify(serializeLobby(lobby))) as SerializedLobby);
+
+    expect(restored.round?.submissions).toEqual(lobby.round?.submissions);
+    expect(restored.round?.submissionSlots).toEqual(lobby.round?.submissionSlots);
+    expect(restored.round?.votes).toEqual(new Map([[host.id, [guest.id]]]));
+    expect(restored.round?.audienceVotes).toEqual(new Map([[viewer.id, [host.id, guest.id]]]));
+    expect(restored.round?.endsAt).toBe(lobby.round?.endsAt);
+    expect(restored.usedSituations).toEqual(lobby.usedSituations);
+    expect(restored.bannedPlayerIds).toEqual(new Set([troll.id]));
+    expect(restored.bannedProfileIds).toEqual(new Set(['profile-troll']));
+    expect(restored.deck).toEqual(lobby.deck);
+    expect([...restored.players.keys()]).toEqual([...lobby.players.keys()]);
+    for (const [id, player] of restored.players) {
+      expect(player.hand).toEqual(lobby.players.get(id)?.hand);
+      expect(player.score).toBe(lobby.players.get(id)?.score);
+      // Sockets belong to the process that wrote the snapshot.
+      expect(player.connected).toBe(false);
+      expect(player.socketId).toBeUndefined();
+    }
+  });
+
+  it('fills in fields that older snapshots do not have', () => {
+    const manager = new GameManager();
+    const { lobby } = manager.createLobby({ rounds: 3, theme: 'fun', maxPlayers: 8 }, { id: 'lobby-1', code: 'ABCDE', inviteOnly: false });
+    const old: Partial<SerializedLobby> = serializeLobby(lobby);
+    for (const field of ['bannedPlayerIds', 'bannedProfileIds', 'locked', 'code', 'inviteOnly', 'history'] as const) {
+      delete old[field];
+    }
+
+    const restored = deserializeLobby(old as SerializedLobby);
+    expect(restored.bannedPlayerIds).toEqual(new Set());
+    expect(restored.bannedProfileIds).toEqual(new Set());
+    expect(restored.locked).toBe(false);
+    expect(restored.code).toMatch(/^[A-Z2-9]{5}$/);
+    expect(restored.inviteOnly).toBe(false);
+    expect(restored.history).toEqual([]);
+  });
+});
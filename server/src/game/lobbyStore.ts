@@ -0,0 +1,190 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { MemeCard } from '../../../shared/types.js';
+import { generateJoinCode } from './lobbyAccess.js';
+import { LobbyState, PlayerState, RoundInternalState } from './types.js';
+
+export type SerializedRound = Omit<RoundInternalState, 'submissions' | 'submissionSlots' | 'votes' | 'audienceVotes'> & {
+  submissions: [string, MemeCard][];
+  submissionSlots: [string, string][];
+  votes: [string, string[]][];
+  // Optional so rounds saved before audience voting existed still load.
+  audienceVotes?: [string, string[]][];
+};
+
+export type SerializedLobby = Omit<
+  LobbyState,
+  | 'players'
+  | 'usedSituations'
+  | 'bannedPlayerIds'
+  | 'bannedProfileIds'
+  | 'locked'
+  | 'code'
+  | 'inviteOnly'
+  | 'history'
+  | 'round'
+> & {
+  players: PlayerState[];
+  usedSituations: string[];
+  // Optional so snapshots written before moderation, join codes and game history existed still load.
+  bannedPlayerIds?: string[];
+  bannedProfileIds?: string[];
+  locked?: boolean;
+  code?: string;
+  inviteOnly?: boolean;
+  history?: LobbyState['history'];
+  round?: SerializedRound;
+};
+
+export interface LobbyStore {
+  loadAll(): Promise<LobbyState[]>;
+  load(lobbyId: string): Promise<LobbyState | undefined>;
+  save(lobby: LobbyState): Promise<void>;
+  delete(lobbyId: string): Promise<void>;
+}
+
+// Plain fields are copied as-is; only the Map and Set fields need converting.
+export function serializeLobby(lobby: LobbyState): SerializedLobby {
+  const { players, usedSituations, bannedPlayerIds, bannedProfileIds, round, ...rest } = lobby;
+  return {
+    ...rest,
+    players: [...players.values()].map((player) => ({ ...player, socketId: undefined })),
+    usedSituations: [...usedSituations],
+    bannedPlayerIds: [...bannedPlayerIds],
+    bannedProfileIds: [...bannedProfileIds],
+    round: round
+      ? {
+          ...round,
+          submissions: [...round.submissions.entries()],
+          submissionSlots: [...round.submissionSlots.entries()],
+          votes: [...round.votes.entries()],
+          audienceVotes: [...round.audienceVotes.entries()]
+        }
+      : undefined
+  };
+}
+
+export function deserializeLobby(data: SerializedLobby): LobbyState {
+  const { players, usedSituations, bannedPlayerIds, bannedProfileIds, locked, code, inviteOnly, history, round, ...rest } = data;
+  return {
+    ...rest,
+    players: new Map(players.map((player) => [player.id, { ...player, connected: false, socketId: undefined }])),
+    usedSituations: new Set(usedSituations),
+    bannedPlayerIds: new Set(bannedPlayerIds ?? []),
+    bannedProfileIds: new Set(bannedProfileIds ?? []),
+    locked: locked ?? false,
+    code: code ?? generateJoinCode(),
+    inviteOnly: inviteOnly ?? false,
+    history: history ?? [],
+    round: round
+      ? {
+          ...round,
+          submissions: new Map(round.submissions),
+          submissionSlots: new Map(round.submissionSlots),
+          votes: new Map(round.votes),
+          audienceVotes: new Map(round.audienceVotes ?? [])
+        }
+      : undefined
+  };
+}
+
+/**
+ * Keeps serialized snapshots in memory. Nothing survives a restart, but lobbies
+ * still go through the same serialize/rehydrate path as the durable stores.
+ */
+export class InMemoryLobbyStore implements LobbyStore {
+  private snapshots = new Map<string, string>();
+
+  async loadAll(): Promise<LobbyState[]> {
+    return [...this.snapshots.values()].map((raw) => deserializeLobby(JSON.parse(raw) as SerializedLobby));
+  }
+
+  async load(lobbyId: string): Promise<LobbyState | undefined> {
+    const raw = this.snapshots.get(lobbyId);
+    return raw ? deserializeLobby(JSON.parse(raw) as SerializedLobby) : undefined;
+  }
+
+  async save(lobby: LobbyState): Promise<void> {
+    this.snapshots.set(lobby.id, JSON.stringify(serializeLobby(lobby)));
+  }
+
+  async delete(lobbyId: string): Promise<void> {
+    this.snapshots.delete(lobbyId);
+  }
+}
+
+/**
+ * Stores one JSON file per lobby. Writes go to a temp file first and are renamed
+ * into place so a crash mid-write never leaves a truncated snapshot behind.
+ */
+export class FileLobbyStore implements LobbyStore {
+  private pending = new Map<string, Promise<void>>();
+
+  constructor(private directory: string) {}
+
+  async loadAll(): Promise<LobbyState[]> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const files = (await fs.readdir(this.directory)).filter((file) => file.endsWith('.json'));
+    const lobbies: LobbyState[] = [];
+    for (const file of files) {
+      try {
+        const raw = await fs.readFile(path.join(this.directory, file), 'utf8');
+        lobbies.push(deserializeLobby(JSON.parse(raw) as SerializedLobby));
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.warn(`Skipping unreadable lobby snapshot ${file}`, error);
+      }
+    }
+    return lobbies;
+  }
+
+  async load(lobbyId: string): Promise<LobbyState | undefined> {
+    try {
+      return deserializeLobby(JSON.parse(await fs.readFile(this.fileFor(lobbyId), 'utf8')) as SerializedLobby);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  save(lobby: LobbyState): Promise<void> {
+    const snapshot = JSON.stringify(serializeLobby(lobby));
+    return this.enqueue(lobby.id, async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      const target = this.fileFor(lobby.id);
+      const temp = `${target}.tmp`;
+      await fs.writeFile(temp, snapshot, 'utf8');
+      await fs.rename(temp, target);
+    });
+  }
+
+  delete(lobbyId: string): Promise<void> {
+    return this.enqueue(lobbyId, () => fs.rm(this.fileFor(lobbyId), { force: true }));
+  }
+
+  private fileFor(lobbyId: string) {
+    return path.join(this.directory, `${encodeURIComponent(lobbyId)}.json`);
+  }
+
+  // Writes for the same lobby are chained so an older snapshot can never land after a newer one.
+  private enqueue(lobbyId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.pending.get(lobbyId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.pending.set(lobbyId, next);
+    next
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.pending.get(lobbyId) === next) {
+          this.pending.delete(lobbyId);
+        }
+      });
+    return next;
+  }
+}
+
+export function createLobbyStore(env: NodeJS.ProcessEnv = process.env): LobbyStore {
+  if (env.LOBBY_STORE === 'memory') {
+    return new InMemoryLobbyStore();
+  }
+  const directory = env.LOBBY_STORE_DIR || path.resolve(process.cwd(), 'data', 'lobbies');
+  return new FileLobbyStore(directory);
+}
@@ -0,0 +1,171 @@
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { MemePackManifest, MemePackSummary } from '../../../shared/types.js';
+import { readZipEntries } from './zip.js';
+
+export const MAX_PACK_BYTES = 25 * 1024 * 1024;
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+const MAX_PACK_MEMES = 300;
+const MIN_PACK_MEMES = 5;
+
+export interface MemePackEntry {
+  id: string;
+  file: string;
+  alt: string;
+}
+
+export interface MemePack {
+  id: string;
+  name: string;
+  createdAt: number;
+  memes: MemePackEntry[];
+}
+
+interface PackImage {
+  data: Buffer;
+  alt: string;
+}
+
+type PackResult = { pack?: MemePack; error?: string };
+
+function sniffImageExtension(data: Buffer): string | undefined {
+  if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47) return 'png';
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpg';
+  if (data.length >= 6 && data.toString('ascii', 0, 4) === 'GIF8') return 'gif';
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') return 'webp';
+  return undefined;
+}
+
+function cleanText(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function altFromFileName(name: string) {
+  return path.basename(name, path.extname(name)).replace(/[-_]+/g, ' ').trim();
+}
+
+export class MemePackStore {
+  constructor(private directory: string) {}
+
+  /** Accepts `{ name, memes: [{ data: 'data:image/png;base64,…', alt }] }`. */
+  async createFromManifest(manifest: MemePackManifest): Promise<PackResult> {
+    const images: PackImage[] = [];
+    for (const [index, meme] of manifest.memes.entries()) {
+      const match = /^data:image\/[a-z+]+;base64,(.+)$/i.exec(meme.data);
+      if (!match) {
+        return { error: `Meme ${index + 1} must have an image data URL` };
+      }
+      images.push({ data: Buffer.from(match[1], 'base64'), alt: cleanText(meme.alt, 140) });
+    }
+    return this.save(cleanText(manifest.name, 60), images);
+  }
+
+  /**
+   * Accepts a ZIP of images. An optional `manifest.json` (`{ name, memes: [{ file, alt }] }`)
+   * supplies the pack name and alt text; otherwise every image is used with its file name as alt.
+   */
+  async createFromZip(buffer: Buffer): Promise<PackResult> {
+    let entries;
+    try {
+      entries = readZipEntries(buffer, MAX_PACK_BYTES * 2);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Invalid ZIP archive' };
+    }
+    const byName = new Map(entries.map((entry) => [entry.name, entry.data]));
+    const manifestEntry = entries.find((entry) => path.basename(entry.name) === 'manifest.json');
+
+    if (!manifestEntry) {
+      const images = entries
+        .filter((entry) => sniffImageExtension(entry.data))
+        .map((entry) => ({ data: entry.data, alt: altFromFileName(entry.name) }));
+      return this.save('', images);
+    }
+
+    let manifest: { name?: unknown; memes?: unknown };
+    try {
+      manifest = JSON.parse(manifestEntry.data.toString('utf8'));
+    } catch (error) {
+      return { error: 'manifest.json is not valid JSON' };
+    }
+    if (!Array.isArray(manifest.memes)) {
+      return { error: 'manifest.json needs a "memes" array' };
+    }
+    const baseDir = path.posix.dirname(manifestEntry.name);
+    const images: PackImage[] = [];
+    for (const meme of manifest.memes) {
+      const { file, alt } = (meme ?? {}) as { file?: unknown; alt?: unknown };
+      const fileName = cleanText(file, 200);
+      const data = byName.get(baseDir === '.' ? fileName : path.posix.join(baseDir, fileName));
+      if (!data) {
+        return { error: `manifest.json references missing file "${fileName}"` };
+      }
+      images.push({ data, alt: cleanText(alt, 140) || altFromFileName(fileName) });
+    }
+    return this.save(cleanText(manifest.name, 60), images);
+  }
+
+  async get(packId: string): Promise<MemePack | undefined> {
+    if (!/^[0-9a-f-]{36}$/.test(packId)) return undefined;
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, packId, 'pack.json'), 'utf8')) as MemePack;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  async getSummary(packId: string): Promise<MemePackSummary | undefined> {
+    const pack = await this.get(packId);
+    return pack ? { id: pack.id, name: pack.name, memeCount: pack.memes.length, createdAt: pack.createdAt } : undefined;
+  }
+
+  async imagePath(packId: string, memeId: string): Promise<string | undefined> {
+    const pack = await this.get(packId);
+    const entry = pack?.memes.find((meme) => meme.id === memeId);
+    return entry ? path.join(this.directory, packId, entry.file) : undefined;
+  }
+
+  private async save(name: string, images: PackImage[]): Promise<PackResult> {
+    if (images.length < MIN_PACK_MEMES) {
+      return { error: `A pack needs at least ${MIN_PACK_MEMES} images` };
+    }
+    if (images.length > MAX_PACK_MEMES) {
+      return { error: `A pack can hold at most ${MAX_PACK_MEMES} images` };
+    }
+
+    const prepared: Array<{ data: Buffer; alt: string; extension: string }> = [];
+    for (const [index, image] of images.entries()) {
+      const extension = sniffImageExtension(image.data);
+      if (!extension) {
+        return { error: `Image ${index + 1} is not a PNG, JPEG, GIF or WebP file` };
+      }
+      if (image.data.length > MAX_IMAGE_BYTES) {
+        return { error: `Image ${index + 1} is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB` };
+      }
+      prepared.push({ ...image, extension });
+    }
+
+    const pack: MemePack = {
+      id: randomUUID(),
+      name: name || 'Custom pack',
+      createdAt: Date.now(),
+      memes: prepared.map((image, index) => ({
+        id: String(index + 1),
+        file: `${index + 1}.${image.extension}`,
+        alt: image.alt || `Custom meme ${index + 1}`
+      }))
+    };
+
+    const packDir = path.join(this.directory, pack.id);
+    await fs.mkdir(packDir, { recursive: true });
+    await Promise.all(prepared.map((image, index) => fs.writeFile(path.join(packDir, pack.memes[index].file), image.data)));
+    await fs.writeFile(path.join(packDir, 'pack.json'), JSON.stringify(pack), 'utf8');
+    return { pack };
+  }
+}
+
+export function createMemePackStore(env: NodeJS.ProcessEnv = process.env) {
+  return new MemePackStore(env.MEME_PACK_DIR || path.resolve(process.cwd(), 'data', 'packs'));
+}
+
+export const memePackStore = createMemePackStore();
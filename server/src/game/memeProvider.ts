@@ -1,7 +1,12 @@
-import { MemeCard } from '../../../shared/types.js';
+import { GameTheme, MemeCard } from '../../../shared/types.js';
+
+export interface MemeQuery {
+  theme?: GameTheme;
+  packId?: string;
+}
 
 export interface MemeProvider {
-  fetchMemes(count: number): Promise<MemeCard[]>;
+  fetchMemes(count: number, query?: MemeQuery): Promise<MemeCard[]>;
 }
 
 const MOCK_MEMES: MemeCard[] = [
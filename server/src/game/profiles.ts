@@ -0,0 +1,125 @@
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { ArchivedGame, CreateProfileRequest, PlayerProfile, ProfileStats } from '../../../shared/types.js';
+
+const PROFILE_ID_PATTERN = /^[0-9a-f-]{36}$/;
+const FAVORITE_MEMES = 6;
+
+// The average is derived on read, so the store keeps the running sum instead.
+interface StoredProfile extends Omit<PlayerProfile, 'stats'> {
+  stats: Omit<ProfileStats, 'averageRoundRank'> & { roundRankSum: number };
+}
+
+function toPublic(profile: StoredProfile): PlayerProfile {
+  const { roundRankSum, ...stats } = profile.stats;
+  return {
+    ...profile,
+    stats: {
+      ...stats,
+      averageRoundRank: stats.roundsPlayed > 0 ? Math.round((roundRankSum / stats.roundsPlayed) * 100) / 100 : undefined
+    }
+  };
+}
+
+/** Stores one JSON file per profile. Stats are folded in from each archived game's round results. */
+export class ProfileStore {
+  private pending = new Map<string, Promise<void>>();
+
+  constructor(private directory: string) {}
+
+  async create({ name, avatar }: CreateProfileRequest): Promise<PlayerProfile> {
+    const profile: StoredProfile = {
+      id: randomUUID(),
+      name: name?.trim().slice(0, 40) || 'Player',
+      avatar: avatar?.trim().slice(0, 8) || '🙂',
+      createdAt: Date.now(),
+      stats: { gamesPlayed: 0, wins: 0, roundsPlayed: 0, roundRankSum: 0, firstPlaceVotes: 0, favoriteMemes: [] }
+    };
+    await this.write(profile);
+    return toPublic(profile);
+  }
+
+  async get(profileId: string): Promise<PlayerProfile | undefined> {
+    const profile = await this.read(profileId);
+    return profile && toPublic(profile);
+  }
+
+  /** Adds a finished game to the lifetime stats of every linked player in it. */
+  async recordGame(game: ArchivedGame): Promise<void> {
+    const topScore = game.standings[0]?.score;
+    await Promise.all(
+      game.roster.map(({ playerId, profileId, name, avatar }) => {
+        if (!profileId) return undefined;
+        return this.update(profileId, (profile) => {
+          const { stats } = profile;
+          profile.name = name;
+          profile.avatar = avatar;
+          stats.gamesPlayed += 1;
+          if (game.standings.some((entry) => entry.playerId === playerId && entry.score === topScore)) {
+            stats.wins += 1;
+          }
+          for (const round of game.rounds) {
+            const result = round.results.find((entry) => entry.playerId === playerId);
+            if (!result) continue;
+            stats.roundsPlayed += 1;
+            stats.roundRankSum += result.rank;
+            stats.firstPlaceVotes += result.firstPlaceVotes;
+            const submission = round.submissions.find((entry) => entry.playerId === playerId);
+            if (submission && result.points > 0) {
+              stats.favoriteMemes.push({ meme: submission.meme, points: result.points, situation: round.situation.text });
+            }
+          }
+          stats.favoriteMemes = stats.favoriteMemes
+            .filter((entry, index, all) => all.findIndex((other) => other.meme.id === entry.meme.id) === index)
+            .sort((a, b) => b.points - a.points)
+            .slice(0, FAVORITE_MEMES);
+        });
+      })
+    );
+  }
+
+  private update(profileId: string, change: (profile: StoredProfile) => void): Promise<void> {
+    // Read-modify-write, so updates to one profile are chained.
+    const previous = this.pending.get(profileId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const profile = await this.read(profileId);
+        if (!profile) return;
+        change(profile);
+        await this.write(profile);
+      });
+    this.pending.set(profileId, next);
+    next
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.pending.get(profileId) === next) {
+          this.pending.delete(profileId);
+        }
+      });
+    return next;
+  }
+
+  private async read(profileId: string): Promise<StoredProfile | undefined> {
+    if (!PROFILE_ID_PATTERN.test(profileId)) return undefined;
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, `${profileId}.json`), 'utf8')) as StoredProfile;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private async write(profile: StoredProfile) {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = path.join(this.directory, `${profile.id}.json`);
+    await fs.writeFile(`${target}.tmp`, JSON.stringify(profile), 'utf8');
+    await fs.rename(`${target}.tmp`, target);
+  }
+}
+
+export function createProfileStore(env: NodeJS.ProcessEnv = process.env) {
+  return new ProfileStore(env.PROFILE_DIR || path.resolve(process.cwd(), 'data', 'profiles'));
+}
+
+export const profileStore = createProfileStore();
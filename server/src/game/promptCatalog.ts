@@ -0,0 +1,111 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { ContentRating, SituationPrompt, ThemeInfo } from '../../../shared/types.js';
+
+export interface CatalogTheme {
+  id: string;
+  label: string;
+  contentRating: ContentRating;
+  memeSearchTerm?: string;
+}
+
+export interface PromptCatalog {
+  themes: CatalogTheme[];
+  prompts: SituationPrompt[];
+}
+
+const CONTENT_RATINGS: ContentRating[] = ['everyone', 'teen', 'mature'];
+const THEME_ID_PATTERN = /^[a-z0-9][a-z0-9+_-]{0,31}$/;
+const LOCALE_PATTERN = /^[a-z]{2}(-[A-Z]{2})?$/;
+
+function fail(file: string, message: string): never {
+  throw new Error(`Invalid prompt catalog ${file}: ${message}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseTheme(file: string, value: unknown): CatalogTheme {
+  if (!isRecord(value)) fail(file, '"theme" must be an object');
+  const { id, label, contentRating, memeSearchTerm } = value;
+  if (typeof id !== 'string' || !THEME_ID_PATTERN.test(id)) fail(file, `theme id "${String(id)}" is not a valid slug`);
+  if (typeof label !== 'string' || !label.trim()) fail(file, 'theme label is required');
+  if (!CONTENT_RATINGS.includes(contentRating as ContentRating)) {
+    fail(file, `theme contentRating must be one of ${CONTENT_RATINGS.join(', ')}`);
+  }
+  if (memeSearchTerm !== undefined && typeof memeSearchTerm !== 'string') fail(file, 'memeSearchTerm must be a string');
+  return { id, label: label.trim(), contentRating: contentRating as ContentRating, memeSearchTerm };
+}
+
+function parsePrompt(file: string, theme: CatalogTheme, value: unknown, index: number): SituationPrompt {
+  const where = `prompt ${index + 1}`;
+  if (!isRecord(value)) fail(file, `${where} must be an object`);
+  const { id, text, locale, tags, rating } = value;
+  if (typeof id !== 'string' || !id.trim()) fail(file, `${where} needs an id`);
+  if (typeof text !== 'string' || text.trim().length < 8 || text.trim().length > 200) {
+    fail(file, `${where} text must be 8–200 characters`);
+  }
+  if (typeof locale !== 'string' || !LOCALE_PATTERN.test(locale)) fail(file, `${where} has an invalid locale`);
+  if (tags !== undefined && (!Array.isArray(tags) || !tags.every((tag) => typeof tag === 'string'))) {
+    fail(file, `${where} tags must be a list of strings`);
+  }
+  if (rating !== undefined && !CONTENT_RATINGS.includes(rating as ContentRating)) fail(file, `${where} has an invalid rating`);
+  return {
+    id,
+    text: text.trim(),
+    theme: theme.id,
+    locale,
+    tags: (tags as string[] | undefined) ?? [],
+    rating: (rating as ContentRating | undefined) ?? theme.contentRating
+  };
+}
+
+/**
+ * Reads every `*.json` file in `directory`. Each file holds one theme and its prompts:
+ * `{ theme: { id, label, contentRating, memeSearchTerm? }, prompts: [{ id, text, locale, tags?, rating? }] }`.
+ * Any problem throws, so a broken catalog stops the server at startup instead of mid-game.
+ */
+export function loadPromptCatalog(directory: string): PromptCatalog {
+  const files = readdirSync(directory)
+    .filter((file) => file.endsWith('.json'))
+    .sort();
+  const themes: CatalogTheme[] = [];
+  const prompts: SituationPrompt[] = [];
+  const promptIds = new Set<string>();
+
+  for (const file of files) {
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(path.join(directory, file), 'utf8'));
+    } catch (error) {
+      fail(file, 'not valid JSON');
+    }
+    if (!isRecord(data)) fail(file, 'expected an object with "theme" and "prompts"');
+    const theme = parseTheme(file, data.theme);
+    if (themes.some((existing) => existing.id === theme.id)) fail(file, `theme "${theme.id}" is defined twice`);
+    if (!Array.isArray(data.prompts) || data.prompts.length === 0) fail(file, '"prompts" must be a non-empty list');
+
+    data.prompts.forEach((value, index) => {
+      const prompt = parsePrompt(file, theme, value, index);
+      if (promptIds.has(prompt.id)) fail(file, `prompt id "${prompt.id}" is used twice`);
+      promptIds.add(prompt.id);
+      prompts.push(prompt);
+    });
+    themes.push(theme);
+  }
+
+  if (themes.length === 0) {
+    throw new Error(`Prompt catalog ${directory} has no themes`);
+  }
+  return { themes, prompts };
+}
+
+export function describeThemes(catalog: PromptCatalog): ThemeInfo[] {
+  return catalog.themes.map((theme) => ({
+    id: theme.id,
+    label: theme.label,
+    contentRating: theme.contentRating,
+    promptCount: catalog.prompts.filter((prompt) => prompt.theme === theme.id).length
+  }));
+}
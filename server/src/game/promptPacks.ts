@@ -0,0 +1,84 @@
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { CreatePromptPackRequest, PromptPack, PromptPackSummary } from '../../../shared/types.js';
+
+export const MIN_PROMPT_LENGTH = 8;
+export const MAX_PROMPT_LENGTH = 200;
+const MIN_PACK_PROMPTS = 3;
+const MAX_PACK_PROMPTS = 200;
+
+export function normalizePrompt(text: string) {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Checks a host-supplied prompt list; duplicates are compared case- and whitespace-insensitively. */
+export function validatePrompts(input: unknown): { prompts?: string[]; error?: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'Prompts must be a list of strings' };
+  }
+  const prompts: string[] = [];
+  const seen = new Set<string>();
+  for (const [index, value] of input.entries()) {
+    if (typeof value !== 'string') {
+      return { error: `Prompt ${index + 1} is not text` };
+    }
+    const text = value.trim().replace(/\s+/g, ' ');
+    if (!text) continue;
+    if (text.length < MIN_PROMPT_LENGTH || text.length > MAX_PROMPT_LENGTH) {
+      return { error: `Prompt ${index + 1} must be between ${MIN_PROMPT_LENGTH} and ${MAX_PROMPT_LENGTH} characters` };
+    }
+    const key = normalizePrompt(text);
+    if (seen.has(key)) {
+      return { error: `Prompt ${index + 1} is a duplicate: "${text}"` };
+    }
+    seen.add(key);
+    prompts.push(text);
+  }
+  if (prompts.length < MIN_PACK_PROMPTS) {
+    return { error: `A prompt pack needs at least ${MIN_PACK_PROMPTS} prompts` };
+  }
+  if (prompts.length > MAX_PACK_PROMPTS) {
+    return { error: `A prompt pack can hold at most ${MAX_PACK_PROMPTS} prompts` };
+  }
+  return { prompts };
+}
+
+export class PromptPackStore {
+  constructor(private directory: string) {}
+
+  async create({ name, prompts }: CreatePromptPackRequest): Promise<{ pack?: PromptPack; error?: string }> {
+    const validation = validatePrompts(prompts);
+    if (!validation.prompts) {
+      return { error: validation.error };
+    }
+    const pack: PromptPack = {
+      id: randomUUID(),
+      name: name?.trim().slice(0, 60) || 'Custom prompts',
+      prompts: validation.prompts,
+      createdAt: Date.now()
+    };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, `${pack.id}.json`), JSON.stringify(pack), 'utf8');
+    return { pack };
+  }
+
+  async get(packId: string): Promise<PromptPack | undefined> {
+    if (!/^[0-9a-f-]{36}$/.test(packId)) return undefined;
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, `${packId}.json`), 'utf8')) as PromptPack;
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
+
+export function summarizePromptPack(pack: PromptPack): PromptPackSummary {
+  return { id: pack.id, name: pack.name, promptCount: pack.prompts.length, createdAt: pack.createdAt };
+}
+
+export function createPromptPackStore(env: NodeJS.ProcessEnv = process.env) {
+  return new PromptPackStore(env.PROMPT_PACK_DIR || path.resolve(process.cwd(), 'data', 'prompt-packs'));
+}
+
+export const promptPackStore = createPromptPackStore();
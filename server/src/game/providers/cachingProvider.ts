@@ -0,0 +1,82 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { MemeCard } from '../../../../shared/types.js';
+import { MemeProvider, MemeQuery } from '../memeProvider.js';
+
+export interface MemeCacheOptions {
+  /** Used to namespace cache keys and on-disk files. */
+  name: string;
+  ttlMs: number;
+  maxEntries: number;
+  /** When set, entries are also written here and survive restarts. */
+  directory?: string;
+}
+
+interface CacheEntry {
+  storedAt: number;
+  cards: MemeCard[];
+}
+
+/**
+ * Caches upstream results per theme in an LRU map, optionally backed by JSON files. A cached
+ * pool is reused as long as it is fresh and holds at least the requested number of cards.
+ */
+export class CachingMemeProvider implements MemeProvider {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private inner: MemeProvider, private options: MemeCacheOptions) {}
+
+  async fetchMemes(count: number, query?: MemeQuery): Promise<MemeCard[]> {
+    const key = `${this.options.name}:${query?.theme ?? 'any'}`;
+    const cached = this.entries.get(key) ?? (await this.readFromDisk(key));
+    if (cached && this.isFresh(cached) && cached.cards.length >= count) {
+      this.remember(key, cached);
+      return cached.cards.slice(0, count);
+    }
+
+    const cards = await this.inner.fetchMemes(count, query);
+    const entry = { storedAt: Date.now(), cards };
+    this.remember(key, entry);
+    await this.writeToDisk(key, entry);
+    return cards;
+  }
+
+  private isFresh(entry: CacheEntry) {
+    return Date.now() - entry.storedAt < this.options.ttlMs;
+  }
+
+  private remember(key: string, entry: CacheEntry) {
+    // Re-inserting moves the key to the end of the Map's iteration order, i.e. most recently used.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private fileFor(key: string) {
+    return path.join(this.options.directory!, `${encodeURIComponent(key)}.json`);
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry | undefined> {
+    if (!this.options.directory) return undefined;
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(key), 'utf8')) as CacheEntry;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private async writeToDisk(key: string, entry: CacheEntry) {
+    if (!this.options.directory) return;
+    try {
+      await fs.mkdir(this.options.directory, { recursive: true });
+      await fs.writeFile(this.fileFor(key), JSON.stringify(entry), 'utf8');
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(`Failed to write meme cache for ${key}`, error);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { MemeCard } from '../../../../shared/types.js';
+import { MemeProvider, MemeQuery } from '../memeProvider.js';
+
+/**
+ * Tries each provider in order. A provider that throws is skipped, and one that comes back
+ * short is topped up by the next, so the last provider should be one that never fails.
+ */
+export class FallbackMemeProvider implements MemeProvider {
+  constructor(private providers: MemeProvider[]) {}
+
+  async fetchMemes(count: number, query?: MemeQuery): Promise<MemeCard[]> {
+    const memes: MemeCard[] = [];
+    const seen = new Set<string>();
+    for (const provider of this.providers) {
+      if (memes.length >= count) break;
+      try {
+        const batch = await provider.fetchMemes(count - memes.length, query);
+        for (const card of batch) {
+          if (seen.has(card.id)) continue;
+          seen.add(card.id);
+          memes.push(card);
+        }
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.warn('Meme provider failed, falling back to the next one', error);
+      }
+    }
+    return memes.slice(0, count);
+  }
+}
@@ -0,0 +1,122 @@
+import { ContentRating, MemeCard } from '../../../../shared/types.js';
+import { MEME_SEARCH_TERMS, THEME_CONTENT_RATINGS } from '../../constants.js';
+import { MemeProvider, MemeQuery } from '../memeProvider.js';
+
+const PAGE_SIZE = 50;
+const REQUEST_TIMEOUT_MS = 5000;
+
+export interface HttpMemeProviderOptions {
+  apiKey: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+async function getJson<T>(url: URL, timeoutMs: number): Promise<T> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+  if (!res.ok) {
+    throw new Error(`Meme API responded with ${res.status} for ${url.pathname}`);
+  }
+  return (await res.json()) as T;
+}
+
+function searchTerm(query?: MemeQuery) {
+  return query?.theme ? MEME_SEARCH_TERMS[query.theme] ?? query.theme : 'reaction';
+}
+
+// Each API's own filter level for a catalog content rating.
+const GIPHY_RATINGS: Record<ContentRating, string> = { everyone: 'pg', teen: 'pg-13', mature: 'r' };
+const TENOR_CONTENT_FILTERS: Record<ContentRating, string> = { everyone: 'high', teen: 'medium', mature: 'low' };
+
+function contentRating(query?: MemeQuery): ContentRating {
+  return (query?.theme && THEME_CONTENT_RATINGS[query.theme]) || 'teen';
+}
+
+interface GiphyResponse {
+  data: Array<{
+    id: string;
+    title?: string;
+    images?: {
+      fixed_height?: { url?: string };
+      original?: { url?: string };
+    };
+  }>;
+  pagination?: { total_count?: number; offset?: number; count?: number };
+}
+
+/** Giphy-style search API: `GET /v1/gifs/search?api_key&q&limit&offset&rating`. */
+export class GiphyMemeProvider implements MemeProvider {
+  private baseUrl: string;
+
+  constructor(private options: HttpMemeProviderOptions) {
+    this.baseUrl = (options.baseUrl ?? 'https://api.giphy.com').replace(/\/$/, '');
+  }
+
+  async fetchMemes(count: number, query?: MemeQuery): Promise<MemeCard[]> {
+    const memes: MemeCard[] = [];
+    let offset = 0;
+    while (memes.length < count) {
+      const url = new URL(`${this.baseUrl}/v1/gifs/search`);
+      url.searchParams.set('api_key', this.options.apiKey);
+      url.searchParams.set('q', searchTerm(query));
+      url.searchParams.set('limit', String(Math.min(PAGE_SIZE, count - memes.length)));
+      url.searchParams.set('offset', String(offset));
+      url.searchParams.set('rating', GIPHY_RATINGS[contentRating(query)]);
+
+      const body = await getJson<GiphyResponse>(url, this.options.timeoutMs ?? REQUEST_TIMEOUT_MS);
+      const page = body.data ?? [];
+      for (const item of page) {
+        const imageUrl = item.images?.fixed_height?.url ?? item.images?.original?.url;
+        if (!imageUrl) continue;
+        memes.push({ id: `giphy-${item.id}`, url: imageUrl, alt: item.title || undefined });
+      }
+      if (page.length === 0) break;
+      offset += page.length;
+    }
+    return memes.slice(0, count);
+  }
+}
+
+interface TenorResponse {
+  results: Array<{
+    id: string;
+    content_description?: string;
+    media_formats?: Record<string, { url?: string } | undefined>;
+  }>;
+  next?: string;
+}
+
+/** Tenor-style v2 search API: `GET /v2/search?key&q&limit&pos&contentfilter`. */
+export class TenorMemeProvider implements MemeProvider {
+  private baseUrl: string;
+
+  constructor(private options: HttpMemeProviderOptions) {
+    this.baseUrl = (options.baseUrl ?? 'https://tenor.googleapis.com').replace(/\/$/, '');
+  }
+
+  async fetchMemes(count: number, query?: MemeQuery): Promise<MemeCard[]> {
+    const memes: MemeCard[] = [];
+    let pos: string | undefined;
+    while (memes.length < count) {
+      const url = new URL(`${this.baseUrl}/v2/search`);
+      url.searchParams.set('key', this.options.apiKey);
+      url.searchParams.set('q', searchTerm(query));
+      url.searchParams.set('limit', String(Math.min(PAGE_SIZE, count - memes.length)));
+      url.searchParams.set('contentfilter', TENOR_CONTENT_FILTERS[contentRating(query)]);
+      url.searchParams.set('media_filter', 'gif,tinygif');
+      if (pos) {
+        url.searchParams.set('pos', pos);
+      }
+
+      const body = await getJson<TenorResponse>(url, this.options.timeoutMs ?? REQUEST_TIMEOUT_MS);
+      const page = body.results ?? [];
+      for (const item of page) {
+        const imageUrl = item.media_formats?.gif?.url ?? item.media_formats?.tinygif?.url;
+        if (!imageUrl) continue;
+        memes.push({ id: `tenor-${item.id}`, url: imageUrl, alt: item.content_description || undefined });
+      }
+      if (page.length === 0 || !body.next) break;
+      pos = body.next;
+    }
+    return memes.slice(0, count);
+  }
+}
@@ -0,0 +1,31 @@
+import { MemeCard } from '../../../../shared/types.js';
+import { MemePackStore } from '../memePacks.js';
+import { MemeProvider, MemeQuery } from '../memeProvider.js';
+import { shuffle } from '../random.js';
+
+/**
+ * Deals from a host-uploaded pack when the lobby selected one, and defers to `fallback`
+ * otherwise. Small packs repeat with suffixed IDs, the same way the mock deck does.
+ */
+export class PackMemeProvider implements MemeProvider {
+  constructor(private packs: MemePackStore, private fallback: MemeProvider) {}
+
+  async fetchMemes(count: number, query?: MemeQuery): Promise<MemeCard[]> {
+    const pack = query?.packId ? await this.packs.get(query.packId) : undefined;
+    if (!pack || pack.memes.length === 0) {
+      return this.fallback.fetchMemes(count, query);
+    }
+
+    const entries = shuffle(pack.memes);
+    const memes: MemeCard[] = [];
+    for (let i = 0; i < count; i += 1) {
+      const entry = entries[i % entries.length];
+      memes.push({
+        id: `pack-${entry.id}-${Math.floor(i / entries.length)}`,
+        url: `/api/packs/${pack.id}/memes/${entry.id}`,
+        alt: entry.alt
+      });
+    }
+    return memes;
+  }
+}
@@ -0,0 +1,116 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { GiphyMemeProvider, TenorMemeProvider } from './httpProviders.js';
+import { createMemeProvider } from './registry.js';
+
+// A local stand-in for the Giphy and Tenor search APIs; `/broken` prefixes answer 500.
+function startFakeApi() {
+  const requests: URL[] = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    requests.push(url);
+    if (url.pathname.startsWith('/broken')) {
+      res.writeHead(500).end();
+      return;
+    }
+    const limit = Number(url.searchParams.get('limit'));
+    res.setHeader('Content-Type', 'application/json');
+    if (url.pathname === '/v1/gifs/search') {
+      const offset = Number(url.searchParams.get('offset'));
+      // Two results per page, four in all.
+      const data = Array.from({ length: Math.max(0, Math.min(limit, 2, 4 - offset)) }, (_, i) => ({
+        id: String(offset + i),
+        title: `gif ${offset + i}`,
+        images: { fixed_height: { url: `https://giphy.test/${offset + i}.gif` } }
+      }));
+      res.end(JSON.stringify({ data }));
+      return;
+    }
+    if (url.pathname === '/v2/search') {
+      const results = Array.from({ length: limit }, (_, i) => ({
+        id: String(i),
+        media_formats: { gif: { url: `https://tenor.test/${i}.gif` } }
+      }));
+      res.end(JSON.stringify({ results }));
+      return;
+    }
+    res.writeHead(404).end();
+  });
+  return { server, requests };
+}
+
+describe('meme providers', () => {
+  const { server, requests } = startFakeApi();
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('pages through a Giphy-style search', async () => {
+    requests.length = 0;
+    const provider = new GiphyMemeProvider({ apiKey: 'key', baseUrl });
+    const memes = await provider.fetchMemes(4, { theme: 'fun' });
+
+    expect(memes.map((meme) => meme.id)).toEqual(['giphy-0', 'giphy-1', 'giphy-2', 'giphy-3']);
+    expect(requests.map((url) => url.searchParams.get('offset'))).toEqual(['0', '2']);
+    expect(requests[0].searchParams.get('api_key')).toBe('key');
+    // `fun` is rated `everyone` in the catalog.
+    expect(requests[0].searchParams.get('rating')).toBe('pg');
+  });
+
+  it('reads a Tenor-style search', async () => {
+    const provider = new TenorMemeProvider({ apiKey: 'key', baseUrl });
+    const memes = await provider.fetchMemes(3);
+
+    expect(memes.map((meme) => meme.url)).toEqual(['https://tenor.test/0.gif', 'https://tenor.test/1.gif', 'https://tenor.test/2.gif']);
+  });
+
+  it('falls back to the next provider when one fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const provider = createMemeProvider({
+      MEME_PROVIDERS: 'giphy,tenor',
+      GIPHY_API_KEY: 'key',
+      GIPHY_BASE_URL: `${baseUrl}/broken`,
+      TENOR_API_KEY: 'key',
+      TENOR_BASE_URL: baseUrl,
+      MEME_CACHE_DIR: 'off'
+    });
+
+    const memes = await provider.fetchMemes(5);
+    expect(memes).toHaveLength(5);
+    expect(memes.every((meme) => meme.id.startsWith('tenor-'))).toBe(true);
+  });
+
+  it('tops a short upstream up from the mock deck', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const provider = createMemeProvider({
+      MEME_PROVIDERS: 'giphy',
+      GIPHY_API_KEY: 'key',
+      GIPHY_BASE_URL: baseUrl,
+      MEME_CACHE_DIR: 'off'
+    });
+
+    const memes = await provider.fetchMemes(6);
+    expect(memes.map((meme) => meme.id.split('-')[0])).toEqual(['giphy', 'giphy', 'giphy', 'giphy', 'meme', 'meme']);
+  });
+
+  it('ends with the mock deck when every upstream fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const provider = createMemeProvider({
+      MEME_PROVIDERS: 'giphy',
+      GIPHY_API_KEY: 'key',
+      GIPHY_BASE_URL: `${baseUrl}/broken`,
+      MEME_CACHE_DIR: 'off'
+    });
+
+    const memes = await provider.fetchMemes(3);
+    expect(memes.map((meme) => meme.id)).toEqual(['meme-1-0', 'meme-2-0', 'meme-3-0']);
+  });
+});
@@ -0,0 +1,60 @@
+import path from 'node:path';
+import { MemeProvider, MockMemeProvider } from '../memeProvider.js';
+import { CachingMemeProvider } from './cachingProvider.js';
+import { FallbackMemeProvider } from './fallbackProvider.js';
+import { GiphyMemeProvider, TenorMemeProvider } from './httpProviders.js';
+
+type ProviderFactory = (env: NodeJS.ProcessEnv) => MemeProvider | undefined;
+
+const factories = new Map<string, ProviderFactory>([
+  [
+    'giphy',
+    (env) =>
+      env.GIPHY_API_KEY ? new GiphyMemeProvider({ apiKey: env.GIPHY_API_KEY, baseUrl: env.GIPHY_BASE_URL }) : undefined
+  ],
+  [
+    'tenor',
+    (env) =>
+      env.TENOR_API_KEY ? new TenorMemeProvider({ apiKey: env.TENOR_API_KEY, baseUrl: env.TENOR_BASE_URL }) : undefined
+  ],
+  ['mock', () => new MockMemeProvider()]
+]);
+
+export function registerMemeProvider(name: string, factory: ProviderFactory) {
+  factories.set(name, factory);
+}
+
+/**
+ * Builds the provider chain from `MEME_PROVIDERS` (comma separated, in fallback order). Each
+ * upstream is wrapped in a cache, and the mock deck is always appended as the last resort.
+ */
+export function createMemeProvider(env: NodeJS.ProcessEnv = process.env): MemeProvider {
+  const names = (env.MEME_PROVIDERS || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name && name !== 'mock');
+
+  const ttlMs = Number(env.MEME_CACHE_TTL_MS || 6 * 60 * 60 * 1000);
+  const maxEntries = Number(env.MEME_CACHE_MAX_ENTRIES || 32);
+  const directory = env.MEME_CACHE_DIR === 'off' ? undefined : env.MEME_CACHE_DIR || path.resolve(process.cwd(), 'data', 'meme-cache');
+
+  const chain: MemeProvider[] = [];
+  for (const name of names) {
+    const factory = factories.get(name);
+    if (!factory) {
+      // eslint-disable-next-line no-console
+      console.warn(`Unknown meme provider "${name}" ignored`);
+      continue;
+    }
+    const provider = factory(env);
+    if (!provider) {
+      // eslint-disable-next-line no-console
+      console.warn(`Meme provider "${name}" is not configured, skipping`);
+      continue;
+    }
+    chain.push(new CachingMemeProvider(provider, { name, ttlMs, maxEntries, directory }));
+  }
+
+  const mock = new MockMemeProvider();
+  return chain.length > 0 ? new FallbackMemeProvider([...chain, mock]) : mock;
+}
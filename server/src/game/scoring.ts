@@ -0,0 +1,80 @@
+import { LobbySettings, ScoringMethod } from '../../../shared/types.js';
+
+/**
+ * How a round's ballots turn into points. Every ballot is a list of player ids: a best-first
+ * ranking of every other submission, or for `approval` the submissions the voter liked.
+ */
+export interface ScoringStrategy {
+  ballot: 'ranking' | 'approval';
+  /** Points a ballot gives the submission at `index`, out of `options` submissions to vote on. */
+  points(index: number, options: number): number;
+  /** Length of `breakdown` in the results. */
+  buckets(options: number): number;
+  /** The `breakdown` slot the ballot position `index` counts toward, if any. */
+  bucket(index: number): number | undefined;
+  /** Points on top of the per-ballot ones, by player id. `votes` maps each voter to their ballot. */
+  bonus?(votes: Map<string, string[]>, options: number): Map<string, number>;
+}
+
+const borda: ScoringStrategy = {
+  ballot: 'ranking',
+  points: (index, options) => options - index,
+  buckets: (options) => options,
+  bucket: (index) => index
+};
+
+const TOP_THREE_POINTS = [3, 2, 1];
+
+export const SCORING_STRATEGIES: Record<ScoringMethod, ScoringStrategy> = {
+  borda,
+  plurality: {
+    ballot: 'ranking',
+    points: (index) => (index === 0 ? 1 : 0),
+    buckets: () => 1,
+    bucket: (index) => (index === 0 ? 0 : undefined)
+  },
+  approval: {
+    ballot: 'approval',
+    points: () => 1,
+    buckets: () => 1,
+    bucket: () => 0
+  },
+  top3: {
+    ballot: 'ranking',
+    points: (index) => TOP_THREE_POINTS[index] ?? 0,
+    buckets: (options) => Math.min(TOP_THREE_POINTS.length, options),
+    bucket: (index) => (index < TOP_THREE_POINTS.length ? index : undefined)
+  },
+  unanimousBonus: {
+    ...borda,
+    // When every ballot agrees on the best meme it earns one more first place. Its author
+    // cannot vote for it, so their ballot is left out.
+    bonus: (votes, options) => {
+      const ballots = [...votes];
+      for (const favorite of new Set(ballots.map(([, ballot]) => ballot[0]))) {
+        const others = ballots.filter(([voterId]) => voterId !== favorite);
+        if (favorite !== undefined && others.length > 1 && others.every(([, ballot]) => ballot[0] === favorite)) {
+          return new Map([[favorite, options]]);
+        }
+      }
+      return new Map();
+    }
+  }
+};
+
+// A favorite, plus an optional runner-up.
+const FAVORITE_PICKS = 2;
+
+/** How many ids a valid ballot holds when there are `options` memes to vote on. */
+export function ballotSize(settings: Pick<LobbySettings, 'scoring' | 'votingMode' | 'gameMode'>, options: number) {
+  if (settings.gameMode === 'judge') return { min: 1, max: 1 };
+  if (scoringStrategy(settings).ballot === 'approval') return { min: 1, max: options };
+  if (settings.votingMode === 'favorite') return { min: 1, max: Math.min(FAVORITE_PICKS, options) };
+  return { min: options, max: options };
+}
+
+/** A judge's ballot names just the winner, so judge mode always scores as `plurality`. */
+export function scoringStrategy(settings: Pick<LobbySettings, 'scoring' | 'gameMode'>): ScoringStrategy {
+  if (settings.gameMode === 'judge') return SCORING_STRATEGIES.plurality;
+  return SCORING_STRATEGIES[settings.scoring ?? 'borda'];
+}
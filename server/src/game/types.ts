@@ -1,4 +1,14 @@
-import { GamePhase, HighlightMoment, LobbySettings, MemeCard, SituationPrompt } from '../../../shared/types.js';
+import {
+  ArchivedPlayer,
+  ArchivedRound,
+  GameErrorCode,
+  GamePhase,
+  GameRecord,
+  HighlightMoment,
+  LobbySettings,
+  MemeCard,
+  SituationPrompt
+} from '../../../shared/types.js';
 
 export interface PlayerState {
   id: string;
@@ -8,11 +18,16 @@ export interface PlayerState {
   connected: boolean;
   spectator: boolean;
   socketId?: string;
+  /** Persistent profile this seat's games count towards, when the player has one. */
+  profileId?: string;
   score: number;
   hand: MemeCard[];
   submittedMemeId?: string;
   voteRanking?: string[];
   bestMoment?: HighlightMoment;
+  /** Running totals from audience voting for the current game. */
+  audiencePoints?: number;
+  audienceFavorites?: number;
 }
 
 export interface RoundInternalState {
@@ -21,8 +36,16 @@ export interface RoundInternalState {
   submissions: Map<string, MemeCard>;
   submissionSlots: Map<string, string>;
   votes: Map<string, string[]>;
+  /** Spectators' ballots; they only hold the phase open for a short grace window after the players vote. */
+  audienceVotes: Map<string, string[]>;
+  /** In `judge` mode, the one player who votes instead of submitting. */
+  judgeId?: string;
   phase: GamePhase;
   endsAt?: number;
+  /** Set instead of `endsAt` while the clock is stopped, by the host or because nobody is connected. */
+  pausedRemainingMs?: number;
+  /** A host pause outlasts reconnects; only the host's resume (or a skip) restarts the clock. */
+  hostPaused?: boolean;
   seed: number;
   leaderboard?: RoundResultEntryInternal[];
 }
@@ -30,9 +53,41 @@ export interface RoundInternalState {
 export interface RoundResultEntryInternal {
   playerId: string;
   points: number;
+  bonus?: number;
   firstPlaceVotes: number;
   secondPlaceVotes: number;
   placements: number[];
+  audiencePoints?: number;
+  audienceShare?: number;
+  audienceFavorite?: boolean;
+}
+
+/** Why the game manager refused an action. The gateway turns it into a localized `GameError`. */
+export interface ActionFailure {
+  code: GameErrorCode;
+  details?: Record<string, unknown>;
+}
+
+/** Decided by the gateway before the lobby exists, so the code is unique across instances. */
+export interface LobbyAccess {
+  id: string;
+  code: string;
+  passwordHash?: string;
+  inviteOnly: boolean;
+}
+
+/** What the creator picked for themselves; a missing name or avatar is chosen at random. */
+export interface HostProfile {
+  name?: string;
+  avatar?: string;
+  profileId?: string;
+}
+
+export interface GameLog {
+  gameId: string;
+  startedAt: number;
+  roster: ArchivedPlayer[];
+  rounds: ArchivedRound[];
 }
 
 export interface LobbyState {
@@ -40,9 +95,27 @@ export interface LobbyState {
   settings: LobbySettings;
   hostId: string;
   players: Map<string, PlayerState>;
+  /** Short code people type to find the lobby; see `lobbyAccess.ts`. */
+  code: string;
+  /** scrypt `salt:hash`; new players must know the password, returning seats do not. */
+  passwordHash?: string;
+  /** The code does not resolve; only the lobby id from the invite link works. */
+  inviteOnly: boolean;
+  locked: boolean;
+  /** Seats the host banned; their session tokens no longer get them back in. */
+  bannedPlayerIds: Set<string>;
+  /** Profiles of banned seats, so a fresh join without the old token is refused too. */
+  bannedProfileIds: Set<string>;
   deck: MemeCard[];
   usedSituations: Set<string>;
   situationsPool: SituationPrompt[];
+  customPrompts?: SituationPrompt[];
   phase: GamePhase;
   round?: RoundInternalState;
+  /** The game in progress, collected round by round for the archive. */
+  currentGame?: GameLog;
+  /** Finished games, oldest first, capped at `MAX_GAME_HISTORY`. */
+  history: GameRecord[];
+  /** When the last connection dropped; the lobby closes once this is `LOBBY_IDLE_TTL_MS` old. */
+  emptySince?: number;
 }
@@ -0,0 +1,123 @@
+import { GameError, GameErrorCode, Locale } from '../../shared/types.js';
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'ru', 'kk'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export function isSupportedLocale(locale: unknown): locale is Locale {
+  return typeof locale === 'string' && SUPPORTED_LOCALES.includes(locale as Locale);
+}
+
+type Messages = Record<GameErrorCode, string> & { lobbyFullSpectating: string };
+
+export type MessageKey = keyof Messages;
+
+const MESSAGES: Record<Locale, Messages> = {
+  en: {
+    lobbyFullSpectating: 'Lobby is full, joined as spectator.',
+    [GameErrorCode.LobbyNotFound]: 'Lobby not found',
+    [GameErrorCode.LobbyClosed]: 'This lobby closed after everyone left.',
+    [GameErrorCode.LobbyUnavailable]: 'Lobby unavailable',
+    [GameErrorCode.NotInLobby]: 'Join the lobby first.',
+    [GameErrorCode.InvalidSession]: 'Your session is invalid or expired. Join again.',
+    [GameErrorCode.Kicked]: 'The host removed you from the lobby.',
+    [GameErrorCode.Banned]: 'The host banned you from this lobby.',
+    [GameErrorCode.LobbyLocked]: 'The lobby is locked.',
+    [GameErrorCode.PasswordRequired]: 'This lobby needs a password.',
+    [GameErrorCode.WrongPassword]: 'Wrong password.',
+    [GameErrorCode.InviteOnly]: 'This lobby is invite only. Ask the host for the link.',
+    [GameErrorCode.PlayerNotFound]: 'That player is not in the lobby.',
+    [GameErrorCode.InvalidTarget]: 'You cannot do that to this player.',
+    [GameErrorCode.NotHost]: 'Only the host can do that.',
+    [GameErrorCode.NotEnoughPlayers]: 'Need at least two active players to start, or three in judge mode.',
+    [GameErrorCode.WrongPhase]: 'That is not possible right now.',
+    [GameErrorCode.SpectatorNotAllowed]: 'Spectators cannot play.',
+    [GameErrorCode.InvalidName]: 'Name cannot be empty.',
+    [GameErrorCode.InvalidAvatar]: 'Avatar cannot be empty.',
+    [GameErrorCode.CardNotInHand]: 'That meme is not in your hand.',
+    [GameErrorCode.NothingToVoteOn]: 'There are no other memes to vote on.',
+    [GameErrorCode.JudgeCannotSubmit]: 'The judge does not play a meme this round.',
+    [GameErrorCode.NotJudge]: 'Only the judge picks the winner this round.',
+    [GameErrorCode.InvalidVote]: 'That ballot does not fit the voting rules of this lobby.',
+    [GameErrorCode.InvalidMemePack]: 'Invalid meme pack',
+    [GameErrorCode.InvalidPromptPack]: 'Invalid prompt pack',
+    [GameErrorCode.InvalidPayload]: 'Request is malformed.',
+    [GameErrorCode.NotFound]: 'Not found',
+    [GameErrorCode.OriginNotAllowed]: 'CORS origin not allowed',
+    [GameErrorCode.Internal]: 'Something went wrong. Please try again.'
+  },
+  ru: {
+    lobbyFullSpectating: 'Лобби заполнено, вы присоединились как зритель.',
+    [GameErrorCode.LobbyNotFound]: 'Лобби не найдено',
+    [GameErrorCode.LobbyClosed]: 'Лобби закрыто: все игроки его покинули.',
+    [GameErrorCode.LobbyUnavailable]: 'Лобби недоступно',
+    [GameErrorCode.NotInLobby]: 'Сначала присоединитесь к лобби.',
+    [GameErrorCode.InvalidSession]: 'Сессия недействительна или устарела. Присоединитесь заново.',
+    [GameErrorCode.Kicked]: 'Хост удалил вас из лобби.',
+    [GameErrorCode.Banned]: 'Хост заблокировал вас в этом лобби.',
+    [GameErrorCode.LobbyLocked]: 'Лобби закрыто.',
+    [GameErrorCode.PasswordRequired]: 'Для входа в это лобби нужен пароль.',
+    [GameErrorCode.WrongPassword]: 'Неверный пароль.',
+    [GameErrorCode.InviteOnly]: 'В это лобби можно войти только по приглашению. Попросите ссылку у хоста.',
+    [GameErrorCode.PlayerNotFound]: 'Этого игрока нет в лобби.',
+    [GameErrorCode.InvalidTarget]: 'С этим игроком так сделать нельзя.',
+    [GameErrorCode.NotHost]: 'Это может сделать только хост.',
+    [GameErrorCode.NotEnoughPlayers]: 'Для начала нужно минимум два активных игрока, а в режиме судьи — три.',
+    [GameErrorCode.WrongPhase]: 'Сейчас это сделать нельзя.',
+    [GameErrorCode.SpectatorNotAllowed]: 'Зрители не могут играть.',
+    [GameErrorCode.InvalidName]: 'Имя не может быть пустым.',
+    [GameErrorCode.InvalidAvatar]: 'Аватар не может быть пустым.',
+    [GameErrorCode.CardNotInHand]: 'Этого мема нет у вас в руке.',
+    [GameErrorCode.NothingToVoteOn]: 'Нет других мемов для голосования.',
+    [GameErrorCode.JudgeCannotSubmit]: 'Судья в этом раунде не выбирает мем.',
+    [GameErrorCode.NotJudge]: 'В этом раунде победителя выбирает только судья.',
+    [GameErrorCode.InvalidVote]: 'Бюллетень не подходит под правила голосования в этом лобби.',
+    [GameErrorCode.InvalidMemePack]: 'Некорректная колода мемов',
+    [GameErrorCode.InvalidPromptPack]: 'Некорректный набор ситуаций',
+    [GameErrorCode.InvalidPayload]: 'Некорректный запрос.',
+    [GameErrorCode.NotFound]: 'Не найдено',
+    [GameErrorCode.OriginNotAllowed]: 'Источник запроса не разрешён',
+    [GameErrorCode.Internal]: 'Что-то пошло не так. Попробуйте ещё раз.'
+  },
+  kk: {
+    lobbyFullSpectating: 'Лобби толы, сіз көрермен ретінде қосылдыңыз.',
+    [GameErrorCode.LobbyNotFound]: 'Лобби табылмады',
+    [GameErrorCode.LobbyClosed]: 'Лобби жабылды: барлық ойыншылар шығып кетті.',
+    [GameErrorCode.LobbyUnavailable]: 'Лобби қолжетімсіз',
+    [GameErrorCode.NotInLobby]: 'Алдымен лоббиге қосылыңыз.',
+    [GameErrorCode.InvalidSession]: 'Сессия жарамсыз немесе ескірген. Қайта қосылыңыз.',
+    [GameErrorCode.Kicked]: 'Хост сізді лоббиден шығарды.',
+    [GameErrorCode.Banned]: 'Хост сізге бұл лоббиге кіруге тыйым салды.',
+    [GameErrorCode.LobbyLocked]: 'Лобби жабық.',
+    [GameErrorCode.PasswordRequired]: 'Бұл лоббиге кіру үшін құпиясөз керек.',
+    [GameErrorCode.WrongPassword]: 'Құпиясөз қате.',
+    [GameErrorCode.InviteOnly]: 'Бұл лоббиге тек шақыру арқылы кіруге болады. Сілтемені хосттан сұраңыз.',
+    [GameErrorCode.PlayerNotFound]: 'Бұл ойыншы лоббиде жоқ.',
+    [GameErrorCode.InvalidTarget]: 'Бұл ойыншыға мұны істеуге болмайды.',
+    [GameErrorCode.NotHost]: 'Мұны тек хост жасай алады.',
+    [GameErrorCode.NotEnoughPlayers]: 'Бастау үшін кемінде екі белсенді ойыншы керек, ал төреші режимінде — үш.',
+    [GameErrorCode.WrongPhase]: 'Қазір мұны жасау мүмкін емес.',
+    [GameErrorCode.SpectatorNotAllowed]: 'Көрермендер ойнай алмайды.',
+    [GameErrorCode.InvalidName]: 'Есім бос болмауы керек.',
+    [GameErrorCode.InvalidAvatar]: 'Аватар бос болмауы керек.',
+    [GameErrorCode.CardNotInHand]: 'Бұл мем сіздің қолыңызда жоқ.',
+    [GameErrorCode.NothingToVoteOn]: 'Дауыс беретін басқа мем жоқ.',
+    [GameErrorCode.JudgeCannotSubmit]: 'Бұл раундта төреші мем таңдамайды.',
+    [GameErrorCode.NotJudge]: 'Бұл раундта жеңімпазды тек төреші таңдайды.',
+    [GameErrorCode.InvalidVote]: 'Бюллетень осы лоббидің дауыс беру ережелеріне сай емес.',
+    [GameErrorCode.InvalidMemePack]: 'Мемдер жиынтығы жарамсыз',
+    [GameErrorCode.InvalidPromptPack]: 'Жағдаяттар жиынтығы жарамсыз',
+    [GameErrorCode.InvalidPayload]: 'Сұраныс пішімі қате.',
+    [GameErrorCode.NotFound]: 'Табылмады',
+    [GameErrorCode.OriginNotAllowed]: 'Сұраныс көзіне рұқсат жоқ',
+    [GameErrorCode.Internal]: 'Бірдеңе дұрыс болмады. Қайталап көріңіз.'
+  }
+};
+
+export function translate(locale: Locale | undefined, key: MessageKey): string {
+  return MESSAGES[isSupportedLocale(locale) ? locale : DEFAULT_LOCALE][key];
+}
+
+export function gameError(locale: Locale | undefined, code: GameErrorCode, details?: Record<string, unknown>): GameError {
+  return details ? { code, message: translate(locale, code), details } : { code, message: translate(locale, code) };
+}
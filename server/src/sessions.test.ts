@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SessionSigner } from './sessions.js';
+
+describe('SessionSigner', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts a fresh seat token and refuses a tampered one', () => {
+    const signer = new SessionSigner('secret');
+    const token = signer.issue('lobby', 'player');
+
+    expect(signer.verify(token)).toEqual({ lobbyId: 'lobby', playerId: 'player' });
+    expect(signer.verify(`${token}x`)).toBeUndefined();
+    expect(new SessionSigner('other').verify(token)).toBeUndefined();
+  });
+
+  it('refuses seat tokens older than the max age', () => {
+    vi.useFakeTimers({ now: 0 });
+    const signer = new SessionSigner('secret', 1000);
+    const token = signer.issue('lobby', 'player');
+
+    vi.setSystemTime(1000);
+    expect(signer.verify(token)).toBeDefined();
+    vi.setSystemTime(1001);
+    expect(signer.verify(token)).toBeUndefined();
+  });
+
+  it('keeps seat and profile tokens apart', () => {
+    const signer = new SessionSigner('secret');
+
+    expect(signer.verifyProfile(signer.issue('lobby', 'player'))).toBeUndefined();
+    expect(signer.verify(signer.issueProfile('profile'))).toBeUndefined();
+  });
+});
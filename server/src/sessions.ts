@@ -0,0 +1,80 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+/** Seat tokens are reissued on every join, so only one left unused this long is refused. */
+const DEFAULT_SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface PlayerSession {
+  lobbyId: string;
+  playerId: string;
+}
+
+/**
+ * Issues and checks the tokens that prove a socket may take a player's seat. A token is
+ * `<base64url payload>.<base64url HMAC-SHA256>`; player ids stay public and grant nothing on their own.
+ */
+export class SessionSigner {
+  constructor(private secret: string, private maxAgeMs = DEFAULT_SESSION_MAX_AGE_MS) {}
+
+  issue(lobbyId: string, playerId: string): string {
+    const payload = Buffer.from(JSON.stringify({ l: lobbyId, p: playerId, t: Date.now() })).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  verify(token: string): PlayerSession | undefined {
+    const payload = this.verifiedPayload(token);
+    if (typeof payload?.l !== 'string' || typeof payload.p !== 'string' || typeof payload.t !== 'number') return undefined;
+    if (Date.now() - payload.t > this.maxAgeMs) return undefined;
+    return { lobbyId: payload.l, playerId: payload.p };
+  }
+
+  /** Profile tokens carry a different payload, so a seat token never passes as one and vice versa. */
+  issueProfile(profileId: string): string {
+    const payload = Buffer.from(JSON.stringify({ u: profileId, t: Date.now() })).toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  verifyProfile(token: string): string | undefined {
+    const payload = this.verifiedPayload(token);
+    return typeof payload?.u === 'string' ? payload.u : undefined;
+  }
+
+  private verifiedPayload(token: string): Record<string, unknown> | undefined {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) return undefined;
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+    try {
+      return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Record<string, unknown>;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+// Without SESSION_SECRET the key is generated once and kept on disk, so tokens survive a restart
+// along with the lobbies the file store restores.
+function loadOrCreateSecret(file: string): string {
+  try {
+    const existing = readFileSync(file, 'utf8').trim();
+    if (existing) return existing;
+  } catch (error) {
+    // Not created yet.
+  }
+  const secret = randomBytes(32).toString('hex');
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, secret, { encoding: 'utf8', mode: 0o600 });
+  return secret;
+}
+
+export function createSessionSigner(env: NodeJS.ProcessEnv = process.env) {
+  const secret = env.SESSION_SECRET || loadOrCreateSecret(path.resolve(process.cwd(), 'data', 'session-secret'));
+  const maxAgeMs = Number(env.SESSION_MAX_AGE_MS) || DEFAULT_SESSION_MAX_AGE_MS;
+  return new SessionSigner(secret, maxAgeMs);
+}
@@ -0,0 +1,18 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+import { GameError, GameErrorCode, Locale } from '../../shared/types.js';
+import { gameError } from './i18n.js';
+
+export type ParseResult<T> = { ok: true; data: T } | { ok: false; error: GameError };
+
+/**
+ * Checks client input against one of the schemas in `shared/schemas.ts`. Failures become an
+ * `INVALID_PAYLOAD` error whose details list each offending field, e.g. `ranking.2`.
+ */
+export function parsePayload<T>(schema: ZodType<T, ZodTypeDef, unknown>, value: unknown, locale?: Locale): ParseResult<T> {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { ok: true, data: result.data };
+  }
+  const issues = result.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+  return { ok: false, error: gameError(locale, GameErrorCode.InvalidPayload, { issues }) };
+}
@@ -0,0 +1,192 @@
+import { z } from 'zod';
+
+/**
+ * Runtime schemas for everything a client sends. The server parses each socket payload and request
+ * body with these before acting on it, and `types.ts` re-exports the types inferred from them, so
+ * the checks and the compile-time shapes cannot drift apart.
+ */
+
+/** UI and prompt languages: English, Russian and Kazakh. */
+export const localeSchema = z.enum(['en', 'ru', 'kk']);
+
+export const promptMixSchema = z.enum(['builtin', 'custom', 'mixed']);
+
+const idSchema = z.string().trim().min(1).max(128);
+
+export const gamePaceSchema = z.enum(['blitz', 'standard', 'chill', 'custom', 'untimed']);
+
+export const scoringMethodSchema = z.enum(['borda', 'plurality', 'approval', 'top3', 'unanimousBonus']);
+
+export const votingModeSchema = z.enum(['ranking', 'favorite']);
+
+export const audienceVotingSchema = z.enum(['off', 'award', 'blend']);
+
+export const gameModeSchema = z.enum(['classic', 'judge']);
+
+/** Seconds per phase. */
+export const phaseDurationsSchema = z.object({
+  selection: z.number().int().min(1).max(3600),
+  voting: z.number().int().min(1).max(3600),
+  results: z.number().int().min(1).max(3600)
+});
+
+// Loose bounds only: the game manager clamps values into range and trims names itself.
+export const lobbySettingsSchema = z.object({
+  rounds: z.number().int().min(1).max(100),
+  theme: z.string().max(32),
+  maxPlayers: z.number().int().min(1).max(100),
+  memePackId: idSchema.optional(),
+  promptPackId: idSchema.optional(),
+  promptMix: promptMixSchema.optional(),
+  locale: localeSchema.optional(),
+  pace: gamePaceSchema.optional(),
+  /** Only read for the `custom` pace; presets fill it in and `untimed` clears it. */
+  durations: phaseDurationsSchema.optional(),
+  scoring: scoringMethodSchema.optional(),
+  /** Ignored by `approval` scoring, whose ballots are always a set of liked memes. */
+  votingMode: votingModeSchema.optional(),
+  audienceVoting: audienceVotingSchema.optional(),
+  /** Percent; only read for `blend`. */
+  audienceWeight: z.number().int().min(0).max(100).optional(),
+  gameMode: gameModeSchema.optional()
+});
+
+export const playerNameSchema = z.string().max(200);
+
+export const playerAvatarSchema = z.string().max(32);
+
+/** Accepts codes as people type them: any case, with spaces or dashes between groups. */
+export const joinCodeSchema = z
+  .string()
+  .transform((value) => value.toUpperCase().replace(/[\s-]/g, ''))
+  .pipe(z.string().regex(/^[A-HJKMNP-Z2-9]{5,6}$/));
+
+export const lobbyPasswordSchema = z.string().min(1).max(64);
+
+/** Links the seat to a persistent profile so its games count towards lifetime stats. */
+export const profileTokenSchema = z.string().max(512);
+
+export const createProfileRequestSchema = z.object({
+  name: playerNameSchema.optional(),
+  avatar: playerAvatarSchema.optional()
+});
+
+export const createLobbyRequestSchema = lobbySettingsSchema.partial().extend({
+  name: playerNameSchema.optional(),
+  avatar: playerAvatarSchema.optional(),
+  profileToken: profileTokenSchema.optional(),
+  /** New players must supply it to join; existing seats reclaim with their session token alone. */
+  password: lobbyPasswordSchema.optional(),
+  /** Hides the lobby from join codes; only the invite link gets people in. */
+  inviteOnly: z.boolean().optional()
+});
+
+/** Preferences only: a lobby that matches them wins, but any open lobby beats making a new one. */
+export const quickMatchRequestSchema = z.object({
+  theme: lobbySettingsSchema.shape.theme.optional(),
+  locale: localeSchema.optional(),
+  name: playerNameSchema.optional(),
+  avatar: playerAvatarSchema.optional(),
+  profileToken: profileTokenSchema.optional()
+});
+
+export const joinLobbyRequestSchema = z.object({
+  lobbyId: idSchema,
+  /** Reclaims the seat it was issued for; without one the socket joins as a new player. */
+  sessionToken: z.string().max(512).optional(),
+  profileToken: profileTokenSchema.optional(),
+  name: playerNameSchema,
+  avatar: playerAvatarSchema,
+  spectator: z.boolean().optional(),
+  password: lobbyPasswordSchema.optional(),
+  /** Used for error messages when the lobby itself cannot be found. */
+  locale: localeSchema.optional()
+});
+
+export const updateSettingsPayloadSchema = z.object({
+  settings: lobbySettingsSchema
+});
+
+export const submitMemePayloadSchema = z.object({
+  memeId: idSchema
+});
+
+export const submitVotePayloadSchema = z.object({
+  ranking: z.array(idSchema).max(50)
+});
+
+export const kickPlayerPayloadSchema = z.object({
+  playerId: idSchema,
+  /** Banned players cannot take their seat back, even with a valid session token. */
+  ban: z.boolean().optional()
+});
+
+export const transferHostPayloadSchema = z.object({
+  playerId: idSchema
+});
+
+export const lockLobbyPayloadSchema = z.object({
+  locked: z.boolean()
+});
+
+export const setSpectatorPayloadSchema = z.object({
+  playerId: idSchema,
+  spectator: z.boolean()
+});
+
+export const pausePhasePayloadSchema = z.object({
+  paused: z.boolean()
+});
+
+export const extendPhasePayloadSchema = z.object({
+  seconds: z.number().int().min(5).max(300)
+});
+
+export const rematchPayloadSchema = z.object({
+  /** Moves on to the next theme in the catalog instead of replaying the same one. */
+  rotateTheme: z.boolean().optional(),
+  /** Returns everyone to the lobby so the host can change settings before starting. */
+  backToLobby: z.boolean().optional()
+});
+
+// Prompt length and duplicate rules live in `validatePrompts`, which reports them per prompt.
+export const createPromptPackRequestSchema = z.object({
+  name: z.string().max(200).optional(),
+  prompts: z.array(z.string().max(1000)).max(1000)
+});
+
+export const memePackManifestSchema = z.object({
+  name: z.string().max(200).optional(),
+  memes: z.array(
+    z.object({
+      data: z.string(),
+      alt: z.string().max(1000).optional()
+    })
+  )
+});
+
+export type Locale = z.infer<typeof localeSchema>;
+export type PromptMix = z.infer<typeof promptMixSchema>;
+export type GamePace = z.infer<typeof gamePaceSchema>;
+export type ScoringMethod = z.infer<typeof scoringMethodSchema>;
+export type VotingMode = z.infer<typeof votingModeSchema>;
+export type AudienceVoting = z.infer<typeof audienceVotingSchema>;
+export type GameMode = z.infer<typeof gameModeSchema>;
+export type PhaseDurations = z.infer<typeof phaseDurationsSchema>;
+export type LobbySettings = z.infer<typeof lobbySettingsSchema>;
+export type CreateProfileRequest = z.infer<typeof createProfileRequestSchema>;
+export type CreateLobbyRequest = z.infer<typeof createLobbyRequestSchema>;
+export type QuickMatchRequest = z.infer<typeof quickMatchRequestSchema>;
+export type JoinLobbyRequest = z.infer<typeof joinLobbyRequestSchema>;
+export type UpdateSettingsPayload = z.infer<typeof updateSettingsPayloadSchema>;
+export type SubmitMemePayload = z.infer<typeof submitMemePayloadSchema>;
+export type SubmitVotePayload = z.infer<typeof submitVotePayloadSchema>;
+export type KickPlayerPayload = z.infer<typeof kickPlayerPayloadSchema>;
+export type TransferHostPayload = z.infer<typeof transferHostPayloadSchema>;
+export type LockLobbyPayload = z.infer<typeof lockLobbyPayloadSchema>;
+export type SetSpectatorPayload = z.infer<typeof setSpectatorPayloadSchema>;
+export type PausePhasePayload = z.infer<typeof pausePhasePayloadSchema>;
+export type ExtendPhasePayload = z.infer<typeof extendPhasePayloadSchema>;
+export type RematchPayload = z.infer<typeof rematchPayloadSchema>;
+export type CreatePromptPackRequest = z.infer<typeof createPromptPackRequestSchema>;
+export type MemePackManifest = z.infer<typeof memePackManifestSchema>;
@@ -1,21 +1,113 @@
-export type GameTheme = 'fun' | 'university' | '18+';
+import type {
+  ExtendPhasePayload,
+  GamePace,
+  JoinLobbyRequest,
+  KickPlayerPayload,
+  Locale,
+  LobbySettings,
+  LockLobbyPayload,
+  PausePhasePayload,
+  PhaseDurations,
+  RematchPayload,
+  SetSpectatorPayload,
+  SubmitMemePayload,
+  SubmitVotePayload,
+  TransferHostPayload,
+  UpdateSettingsPayload
+} from './schemas.js';
 
-export interface LobbySettings {
-  rounds: number;
-  theme: GameTheme;
-  maxPlayers: number;
+export const PACE_PRESETS: Record<Exclude<GamePace, 'custom' | 'untimed'>, PhaseDurations> = {
+  blitz: { selection: 20, voting: 25, results: 6 },
+  standard: { selection: 45, voting: 60, results: 12 },
+  chill: { selection: 90, voting: 120, results: 20 }
+};
+
+/** Inclusive bounds, in percent, for `audienceWeight` in `blend` audience voting. */
+export const AUDIENCE_WEIGHT_LIMITS = { min: 5, max: 100 };
+
+/** Inclusive bounds, in seconds, for a `custom` pace. */
+export const PHASE_DURATION_LIMITS: Record<keyof PhaseDurations, { min: number; max: number }> = {
+  selection: { min: 10, max: 180 },
+  voting: { min: 10, max: 180 },
+  results: { min: 3, max: 60 }
+};
+
+/** Theme ids come from the server's prompt catalog (`server/catalog`). */
+export type GameTheme = string;
+
+export type ContentRating = 'everyone' | 'teen' | 'mature';
+
+export interface ThemeInfo {
+  id: GameTheme;
+  label: string;
+  contentRating: ContentRating;
+  promptCount: number;
 }
 
+
+// Payloads sent by clients are defined as runtime schemas; see `schemas.ts`.
+export type {
+  AudienceVoting,
+  CreateLobbyRequest,
+  CreateProfileRequest,
+  CreatePromptPackRequest,
+  ExtendPhasePayload,
+  GameMode,
+  GamePace,
+  JoinLobbyRequest,
+  KickPlayerPayload,
+  Locale,
+  LobbySettings,
+  LockLobbyPayload,
+  MemePackManifest,
+  PausePhasePayload,
+  PhaseDurations,
+  PromptMix,
+  QuickMatchRequest,
+  RematchPayload,
+  ScoringMethod,
+  SetSpectatorPayload,
+  SubmitMemePayload,
+  SubmitVotePayload,
+  TransferHostPayload,
+  UpdateSettingsPayload,
+  VotingMode
+} from './schemas.js';
+
 export interface MemeCard {
   id: string;
   url: string;
   alt?: string;
 }
 
+export interface MemePackSummary {
+  id: string;
+  name: string;
+  memeCount: number;
+  createdAt: number;
+}
+
+export interface PromptPack {
+  id: string;
+  name: string;
+  prompts: string[];
+  createdAt: number;
+}
+
+export interface PromptPackSummary {
+  id: string;
+  name: string;
+  promptCount: number;
+  createdAt: number;
+}
+
 export interface SituationPrompt {
   id: string;
   text: string;
   theme: GameTheme;
+  locale?: string;
+  tags?: string[];
+  rating?: ContentRating;
 }
 
 export interface HighlightMoment {
@@ -49,9 +141,18 @@ export interface RoundResultEntry {
   playerId: string;
   points: number;
   rank: number;
+  /** Ballot counts per scoring position; what a position means depends on the lobby's `scoring`. */
   breakdown: number[];
+  /** Points from `unanimousBonus`, already included in `points`. */
+  bonus?: number;
   firstPlaceVotes: number;
   secondPlaceVotes: number;
+  /** What the spectators' ballots alone gave this meme; set when audience voting is on. */
+  audiencePoints?: number;
+  /** The weighted share of `audiencePoints` included in `points` under `blend`. */
+  audienceShare?: number;
+  /** Top of the audience's tally this round, ties included. */
+  audienceFavorite?: boolean;
 }
 
 export interface RoundStatePublic {
@@ -62,12 +163,160 @@ export interface RoundStatePublic {
   submissions: RoundSubmissionView[];
   leaderboard: RoundResultEntry[];
   endsAt?: number;
+  /** The clock is stopped; `endsAt` is unset and `remainingMs` holds the time left. */
+  paused?: boolean;
+  remainingMs?: number;
+  /** Spectator ballots cast this round; set when audience voting is on. */
+  audienceBallots?: number;
+  /** In `judge` mode, the player who picks this round's winner instead of submitting. */
+  judgeId?: string;
 }
 
 export interface FinalResultEntry {
   playerId: string;
   score: number;
   bestMoment?: HighlightMoment;
+  /** Game totals of the round fields; set when audience voting is on. */
+  audiencePoints?: number;
+  audienceFavorites?: number;
+}
+
+/** A finished game, kept in the lobby's history. Names are copied so the record outlives the seat. */
+export interface GameRecord {
+  /** Looks up the full game in the archive; missing for games finished before the archive existed. */
+  gameId?: string;
+  gameNumber: number;
+  theme: GameTheme;
+  rounds: number;
+  finishedAt: number;
+  results: Array<{ playerId: string; name: string; avatar: string; score: number; rank: number }>;
+}
+
+/** Running totals across every game in a lobby's history. Tied winners each get the win. */
+export interface SeriesTallyEntry {
+  playerId: string;
+  name: string;
+  avatar: string;
+  wins: number;
+  gamesPlayed: number;
+  totalScore: number;
+}
+
+export interface ArchivedPlayer {
+  playerId: string;
+  /** Set when the seat was linked to a persistent profile. */
+  profileId?: string;
+  name: string;
+  avatar: string;
+}
+
+export interface ArchivedRound {
+  roundNumber: number;
+  /** Set for rounds of `judge` mode games. */
+  judgeId?: string;
+  situation: SituationPrompt;
+  submissions: Array<{ playerId: string; meme: MemeCard }>;
+  /**
+   * Each voter's ballot: other players' submissions best first, only a favorite and runner-up in
+   * `favorite` voting, or the approved ones under `approval` scoring.
+   */
+  votes: Array<{ playerId: string; ranking: string[] }>;
+  /** Spectators' ballots, when audience voting was on. */
+  audienceVotes?: Array<{ playerId: string; ranking: string[] }>;
+  results: RoundResultEntry[];
+}
+
+/** Everything needed to replay a finished game round by round. */
+export interface ArchivedGame {
+  gameId: string;
+  lobbyId: string;
+  gameNumber: number;
+  settings: LobbySettings;
+  startedAt: number;
+  finishedAt: number;
+  /** Everyone who was dealt in, including players who left before the end. */
+  roster: ArchivedPlayer[];
+  /** Only rounds that reached scoring; a game ended early may stop mid-round. */
+  rounds: ArchivedRound[];
+  standings: FinalResultEntry[];
+}
+
+export interface ArchivedGameSummary {
+  gameId: string;
+  lobbyId: string;
+  gameNumber: number;
+  theme: GameTheme;
+  startedAt: number;
+  finishedAt: number;
+  roundsPlayed: number;
+  winners: ArchivedPlayer[];
+}
+
+export interface FavoriteMeme {
+  meme: MemeCard;
+  points: number;
+  situation: string;
+}
+
+export interface ProfileStats {
+  gamesPlayed: number;
+  /** Games finished at the top of the standings, ties included. */
+  wins: number;
+  roundsPlayed: number;
+  /** Mean finishing place across scored rounds; unset until a round has been played. */
+  averageRoundRank?: number;
+  firstPlaceVotes: number;
+  /** The player's best-scoring submissions, best first. */
+  favoriteMemes: FavoriteMeme[];
+}
+
+/** An anonymous, device-held identity that collects stats across lobbies. */
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  avatar: string;
+  createdAt: number;
+  stats: ProfileStats;
+}
+
+export interface CreateProfileResponse {
+  profile: PlayerProfile;
+  /** Proves ownership when joining lobbies; keep it private. */
+  profileToken: string;
+}
+
+export interface RatingEntry {
+  profileId: string;
+  name: string;
+  avatar: string;
+  rating: number;
+  gamesRated: number;
+}
+
+export interface SeasonEntry {
+  profileId: string;
+  name: string;
+  avatar: string;
+  points: number;
+  wins: number;
+  gamesPlayed: number;
+}
+
+export type LeaderboardSeason = 'weekly' | 'monthly' | 'allTime';
+
+export interface SeasonBoard {
+  season: LeaderboardSeason;
+  /** `2026-W07`, `2026-02` or `all`. */
+  period: string;
+  byPoints: SeasonEntry[];
+  byWins: SeasonEntry[];
+}
+
+export interface LeaderboardsResponse {
+  ratings: RatingEntry[];
+  weekly: SeasonBoard;
+  monthly: SeasonBoard;
+  allTime: SeasonBoard;
 }
 
 export interface LobbyStatePayload {
@@ -75,9 +324,18 @@ export interface LobbyStatePayload {
   settings: LobbySettings;
   players: PlayerPublicState[];
   hostId: string;
+  /** A locked lobby only lets existing seats back in. */
+  locked: boolean;
+  /** Short join code, e.g. `K7QXM`. Invite-only lobbies still have one but it does not resolve. */
+  code: string;
+  hasPassword: boolean;
+  inviteOnly: boolean;
   phase: GamePhase;
   round?: RoundStatePublic;
   finalResults?: FinalResultEntry[];
+  /** Past games in this lobby, oldest first. */
+  history: GameRecord[];
+  series: SeriesTallyEntry[];
   you?: {
     id: string;
     spectator: boolean;
@@ -86,46 +344,111 @@ export interface LobbyStatePayload {
   };
 }
 
-export interface JoinLobbyRequest {
+/** A lobby anyone may join, as shown in the lobby browser. Private and locked lobbies are never listed. */
+export interface PublicLobby {
   lobbyId: string;
-  playerId?: string;
-  name: string;
-  avatar: string;
-  spectator?: boolean;
+  code: string;
+  theme: GameTheme;
+  locale?: Locale;
+  hostName: string;
+  /** Seated players; spectators do not count against `maxPlayers`. */
+  players: number;
+  maxPlayers: number;
+  phase: GamePhase;
 }
 
-export interface JoinLobbyResponse {
-  ok: boolean;
+export interface QuickMatchResponse {
   lobbyId: string;
-  playerId: string;
-  spectator: boolean;
-  message?: string;
+  /** True when no open lobby fit and a new one was made with the caller as host. */
+  created: boolean;
+  /** Set only when `created`; claims the host seat like the one from `POST /api/lobbies`. */
+  sessionToken?: string;
 }
 
-export interface UpdateSettingsPayload {
-  settings: LobbySettings;
+/** Why an action or request was rejected. Stable across locales, unlike `GameError.message`. */
+export enum GameErrorCode {
+  LobbyNotFound = 'LOBBY_NOT_FOUND',
+  LobbyClosed = 'LOBBY_CLOSED',
+  LobbyUnavailable = 'LOBBY_UNAVAILABLE',
+  NotInLobby = 'NOT_IN_LOBBY',
+  InvalidSession = 'INVALID_SESSION',
+  Kicked = 'KICKED',
+  Banned = 'BANNED',
+  LobbyLocked = 'LOBBY_LOCKED',
+  PasswordRequired = 'PASSWORD_REQUIRED',
+  WrongPassword = 'WRONG_PASSWORD',
+  InviteOnly = 'INVITE_ONLY',
+  PlayerNotFound = 'PLAYER_NOT_FOUND',
+  InvalidTarget = 'INVALID_TARGET',
+  NotHost = 'NOT_HOST',
+  NotEnoughPlayers = 'NOT_ENOUGH_PLAYERS',
+  WrongPhase = 'WRONG_PHASE',
+  SpectatorNotAllowed = 'SPECTATOR_NOT_ALLOWED',
+  InvalidName = 'INVALID_NAME',
+  InvalidAvatar = 'INVALID_AVATAR',
+  CardNotInHand = 'CARD_NOT_IN_HAND',
+  NothingToVoteOn = 'NOTHING_TO_VOTE_ON',
+  JudgeCannotSubmit = 'JUDGE_CANNOT_SUBMIT',
+  NotJudge = 'NOT_JUDGE',
+  InvalidVote = 'INVALID_VOTE',
+  InvalidMemePack = 'INVALID_MEME_PACK',
+  InvalidPromptPack = 'INVALID_PROMPT_PACK',
+  InvalidPayload = 'INVALID_PAYLOAD',
+  NotFound = 'NOT_FOUND',
+  OriginNotAllowed = 'ORIGIN_NOT_ALLOWED',
+  Internal = 'INTERNAL'
 }
 
-export interface SubmitMemePayload {
-  memeId: string;
+export interface GameError {
+  code: GameErrorCode;
+  /** Human-readable, localized to the lobby's language where there is one. */
+  message: string;
+  details?: Record<string, unknown>;
 }
 
-export interface SubmitVotePayload {
-  ranking: string[];
+export type ActionResult = { ok: true } | { ok: false; error: GameError };
+
+export type ActionCallback = (result: ActionResult) => void;
+
+export interface JoinLobbyResponse {
+  ok: boolean;
+  lobbyId: string;
+  playerId: string;
+  spectator: boolean;
+  /** Proof of this seat for later joins; player ids alone are public and reclaim nothing. */
+  sessionToken?: string;
+  message?: string;
+  error?: GameError;
 }
 
 export interface ServerToClientEvents {
   'lobby:state': (state: LobbyStatePayload) => void;
-  'lobby:error': (message: string) => void;
+  /** Failures of actions sent without an acknowledgement callback. */
+  'lobby:error': (error: GameError) => void;
+  /** The host removed this player; the code is `KICKED` or `BANNED`. No more state follows. */
+  'lobby:kicked': (error: GameError) => void;
+  /** Sent to sockets watching the lobby browser whenever the public listing changes. */
+  'lobbies:list': (lobbies: PublicLobby[]) => void;
 }
 
 export interface ClientToServerEvents {
   'player:join': (data: JoinLobbyRequest, callback: (response: JoinLobbyResponse) => void) => void;
-  'player:updateName': (name: string) => void;
-  'player:updateAvatar': (avatar: string) => void;
-  'game:updateSettings': (payload: UpdateSettingsPayload) => void;
-  'game:start': () => void;
-  'submission:submit': (payload: SubmitMemePayload) => void;
-  'vote:submit': (payload: SubmitVotePayload) => void;
-  'player:leave': () => void;
+  'player:updateName': (name: string, callback?: ActionCallback) => void;
+  'player:updateAvatar': (avatar: string, callback?: ActionCallback) => void;
+  'game:updateSettings': (payload: UpdateSettingsPayload, callback?: ActionCallback) => void;
+  'game:start': (callback?: ActionCallback) => void;
+  'submission:submit': (payload: SubmitMemePayload, callback?: ActionCallback) => void;
+  'vote:submit': (payload: SubmitVotePayload, callback?: ActionCallback) => void;
+  'host:kick': (payload: KickPlayerPayload, callback?: ActionCallback) => void;
+  'host:transfer': (payload: TransferHostPayload, callback?: ActionCallback) => void;
+  'host:lock': (payload: LockLobbyPayload, callback?: ActionCallback) => void;
+  'host:setSpectator': (payload: SetSpectatorPayload, callback?: ActionCallback) => void;
+  'host:pause': (payload: PausePhasePayload, callback?: ActionCallback) => void;
+  'host:skip': (callback?: ActionCallback) => void;
+  'host:extend': (payload: ExtendPhasePayload, callback?: ActionCallback) => void;
+  'host:endGame': (callback?: ActionCallback) => void;
+  'game:rematch': (payload: RematchPayload, callback?: ActionCallback) => void;
+  'player:leave': (callback?: ActionCallback) => void;
+  'lobbies:watch': () => void;
+  'lobbies:unwatch': () => void;
 }